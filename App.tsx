@@ -1,36 +1,186 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { View, ChatMessage, AspectRatio, TranscriptionEntry, Restaurant, Itinerary, Activity, NewsArticle, ContentCarouselData, ContentCardData, StructuredContent, ContentType } from './types';
+import { View, ChatMessage, Conversation, VideoJob, SourceVideo, TripCriteria, Money, AspectRatio, TranscriptionEntry, Restaurant, ResolvedLocation, Itinerary, Activity, NewsArticle, YouTubeVideo, ContentCarouselData, ContentCardData, StructuredContent, ContentType } from './types';
 import { 
-    ChatsIcon, ExploreIcon, SavedIcon, TripsIcon, UpdatesIcon, InspirationIcon, CreateIcon, MoreIcon,
+    ChatsIcon, ExploreIcon, SavedIcon, TripsIcon, UpdatesIcon, InspirationIcon, CreateIcon,
     LocationIcon, MapIcon, ChevronLeftIcon, ChevronRightIcon, SendIcon, BedIcon, FlightIcon, RestaurantIcon,
-    ActivityIcon, BrainIcon, VideoIcon
+    ActivityIcon, BrainIcon, VideoIcon, StopIcon, LiveIcon, CloseIcon, AnalyzeIcon
 } from './components/icons';
 import { exploreData } from './mockData';
 import * as gemini from './services/gemini';
-import { GenerateContentResponse, GroundingChunk, LiveServerMessage, LiveSession, Modality, GenerateVideosOperation, Blob } from '@google/genai';
+import { readChatResponse, requestsSources } from './services/chatResponse';
+import { ModelResponseError } from './services/modelJson';
+import { canRetry, describeAIError } from './services/aiErrors';
+import * as conversationStore from './services/conversations';
+import ConversationList from './components/ConversationList';
+import TripsView from './components/TripsView';
+import LiveAssistantView from './components/LiveAssistantView';
+import UpdatesView from './components/UpdatesView';
+import PhotoAnalyzerView from './components/PhotoAnalyzerView';
+import NewsArticleCard from './components/NewsArticleCard';
+import CitedText from './components/CitedText';
+import VlogImportDialog from './components/VlogImportDialog';
+import VideoPlayerModal from './components/VideoPlayerModal';
+import VideoResultsDialog from './components/VideoResultsDialog';
+import ExploreFilters from './components/ExploreFilters';
+import LocationPicker from './components/LocationPicker';
+import PlaceControls from './components/PlaceControls';
+import PlaceResultsDialog from './components/PlaceResultsDialog';
+import PlaceDrawer from './components/PlaceDrawer';
+import SpeakButton from './components/SpeakButton';
+import NarrationBar from './components/NarrationBar';
+import CacheMenu from './components/CacheMenu';
+import SaveButton from './components/SaveButton';
+import SavedView from './components/SavedView';
+import CreateView, { CreateTab } from './components/CreateView';
+import * as imageStore from './services/images';
+import * as videoJobs from './services/videoJobs';
+import ExportMenu from './components/ExportMenu';
+import MapPanel, { MapPoint } from './components/MapPanel';
+import * as tripStore from './services/trips';
+import { formatTimestamp, timestampUrl } from './services/vlogs';
+import { daySpeechText, messageSpeechText } from './services/speech';
+import { criteriaSummary, loadCriteria, placesQuery, saveCriteria } from './services/criteria';
+import { savedCard } from './services/saved';
+import { watchUrl, YouTubeSearchPage } from './services/youtube';
+import * as lookups from './services/lookups';
+import { DEFAULT_PLACE_FILTER, filterPlaces, formatDistance, formatRating, PlaceFilter, placeCategories, PlaceSort, sortPlaces, withDistances } from './services/places';
+import { resolveDestination } from './services/locations';
+import { formatDuration, formatMoney, insertDay, itineraryCosts, parseBudget, replaceDay, sumCosts } from './services/itinerary';
+import { GenerateContentResponse, GroundingChunk, LiveServerMessage, Modality, GenerateVideosOperation, Blob } from '@google/genai';
 
 
 // --- MAIN APP ---
 
 const App: React.FC = () => {
     const [view, setView] = useState<View>(View.Explore);
+    const [conversations, setConversations] = useState<Conversation[]>([]);
+    const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+
+    const refreshConversations = useCallback(async () => {
+        try {
+            setConversations(await conversationStore.listConversations());
+        } catch (error) {
+            console.error("Failed to load conversations:", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        refreshConversations();
+    }, [refreshConversations]);
+
+    const [criteria, setCriteria] = useState<TripCriteria>(loadCriteria);
+
+    const handleCriteriaChange = (next: TripCriteria) => {
+        setCriteria(next);
+        saveCriteria(next);
+    };
+
+    const [createTab, setCreateTab] = useState<CreateTab>('images');
+    const [activeVideoJobs, setActiveVideoJobs] = useState(0);
+    const [finishedVideo, setFinishedVideo] = useState<VideoJob | null>(null);
+
+    // Video jobs outlive the Create view, so they are resumed and watched here.
+    useEffect(() => {
+        const unsubscribe = videoJobs.subscribeToVideoJobs(jobs => setActiveVideoJobs(jobs.filter(videoJobs.isActive).length));
+        const unsubscribeFinished = videoJobs.onVideoJobFinished(setFinishedVideo);
+        return () => {
+            unsubscribe();
+            unsubscribeFinished();
+        };
+    }, []);
+
+    const openVideos = () => {
+        setFinishedVideo(null);
+        setCreateTab('videos');
+        setView(View.Create);
+    };
+
+    const startNewChat = () => {
+        setActiveConversationId(null);
+        setView(View.Chats);
+    };
+
+    // A message handed to the next new chat, e.g. from a Saved collection.
+    const [chatDraft, setChatDraft] = useState<string | null>(null);
+
+    const startChatWithDraft = (draft: string) => {
+        setChatDraft(draft);
+        startNewChat();
+    };
+
+    const handleConversationSaved = (conversation: Conversation) => {
+        setActiveConversationId(conversation.id);
+        refreshConversations();
+    };
+
+    const openSavedConversation = (conversation: Conversation) => {
+        handleConversationSaved(conversation);
+        setView(View.Chats);
+    };
+
+    const handleRenameConversation = async (id: string, title: string) => {
+        await conversationStore.renameConversation(id, title);
+        refreshConversations();
+    };
+
+    const openConversation = (id: string) => {
+        setActiveConversationId(id);
+        refreshConversations();
+        setView(View.Chats);
+    };
+
+    const handleDeleteConversation = async (id: string) => {
+        await conversationStore.deleteConversation(id);
+        if (id === activeConversationId) setActiveConversationId(null);
+        refreshConversations();
+    };
 
     const navItems = [
         { id: View.Chats, icon: <ChatsIcon />, label: 'Chats' },
+        { id: View.LiveAssistant, icon: <LiveIcon />, label: 'Voice' },
         { id: View.Explore, icon: <ExploreIcon />, label: 'Explore' },
         { id: View.Saved, icon: <SavedIcon />, label: 'Saved' },
         { id: View.Trips, icon: <TripsIcon />, label: 'Trips' },
         { id: View.Updates, icon: <UpdatesIcon />, label: 'Updates' },
         { id: View.Inspiration, icon: <InspirationIcon />, label: 'Inspiration' },
         { id: View.Create, icon: <CreateIcon />, label: 'Create' },
+        { id: View.ContentAnalyzer, icon: <AnalyzeIcon />, label: 'Photo analyzer' },
     ];
 
     const renderView = () => {
         switch (view) {
-            case View.Chats: return <ChatView />;
+            case View.Chats: return (
+                <div className="flex h-full">
+                    <ConversationList
+                        conversations={conversations}
+                        activeId={activeConversationId}
+                        onSelect={setActiveConversationId}
+                        onNewChat={startNewChat}
+                        onRename={handleRenameConversation}
+                        onDelete={handleDeleteConversation}
+                    />
+                    <div className="flex-1 min-w-0">
+                        <ChatView
+                            conversationId={activeConversationId}
+                            title={conversations.find(c => c.id === activeConversationId)?.title ?? 'New chat'}
+                            newChatContext={criteriaSummary(criteria)}
+                            draft={chatDraft}
+                            onDraftUsed={() => setChatDraft(null)}
+                            onConversationSaved={handleConversationSaved}
+                        />
+                    </div>
+                </div>
+            );
+            case View.Saved: return <SavedView onStartChat={startChatWithDraft} />;
+            case View.Trips: return <TripsView onOpenConversation={openConversation} />;
+            case View.Updates: return <UpdatesView />;
+            case View.Create:
+            case View.VisualCreator: return <CreateView initialTab={createTab} />;
+            case View.LiveAssistant: return <LiveAssistantView onTranscriptSaved={openSavedConversation} />;
+            case View.ContentAnalyzer: return <PhotoAnalyzerView onChatStarted={openSavedConversation} />;
             case View.Explore:
             default:
-                return <ExploreView setView={setView} />;
+                return <ExploreView setView={setView} criteria={criteria} onCriteriaChange={handleCriteriaChange} onConversationStarted={openSavedConversation} onStartChat={startChatWithDraft} />;
         }
     };
 
@@ -45,7 +195,10 @@ const App: React.FC = () => {
                         {navItems.map(item => (
                             <li key={item.id}>
                                 <button
-                                    onClick={() => setView(item.id)}
+                                    onClick={() => {
+                                        if (item.id === View.Create) setCreateTab('images');
+                                        setView(item.id);
+                                    }}
                                     className={`w-full flex items-center gap-3 p-3 rounded-lg transition-colors ${
                                         view === item.id 
                                         ? 'bg-slate-100 dark:bg-slate-800 font-semibold' 
@@ -54,13 +207,14 @@ const App: React.FC = () => {
                                 >
                                     {React.cloneElement(item.icon, { className: 'w-5 h-5' })}
                                     <span className="">{item.label}</span>
-                                    {item.id === View.Chats && <span className="ml-auto text-xs bg-slate-200 dark:bg-slate-700 rounded-full px-2 py-0.5">1</span>}
+                                    {item.id === View.Chats && conversations.length > 0 && <span className="ml-auto text-xs bg-slate-200 dark:bg-slate-700 rounded-full px-2 py-0.5">{conversations.length}</span>}
+                                    {item.id === View.Create && activeVideoJobs > 0 && <span className="ml-auto text-xs bg-sky-100 text-sky-700 dark:bg-sky-900 dark:text-sky-200 rounded-full px-2 py-0.5 animate-pulse" title="Videos generating">{activeVideoJobs}</span>}
                                 </button>
                             </li>
                         ))}
                     </ul>
                      <button
-                        onClick={() => setView(View.Chats)}
+                        onClick={startNewChat}
                         className="w-full text-left bg-slate-100 hover:bg-slate-200 dark:bg-slate-800 dark:hover:bg-slate-700 transition-colors font-semibold p-3 rounded-lg mt-6"
                     >
                         New chat
@@ -78,9 +232,7 @@ const App: React.FC = () => {
                             <div className="w-8 h-8 rounded-full bg-emerald-200"></div>
                             <span className="font-semibold">Traveler</span>
                         </div>
-                        <button className="text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">
-                            <MoreIcon />
-                        </button>
+                        <CacheMenu />
                     </div>
                     <div className="text-xs text-slate-400 p-2 flex gap-2">
                        <a href="#" className="hover:underline">Company</a>
@@ -95,116 +247,237 @@ const App: React.FC = () => {
             <main className="flex-1 overflow-y-auto">
                 {renderView()}
             </main>
+            <NarrationBar />
+            {finishedVideo && (
+                <div role="status" className="fixed bottom-6 right-6 z-30 w-80 flex items-start gap-3 p-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl shadow-lg">
+                    <VideoIcon className="w-5 h-5 text-sky-500 flex-shrink-0 mt-0.5" />
+                    <div className="flex-1 min-w-0">
+                        <p className="font-semibold">Your video is ready</p>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 truncate">{finishedVideo.prompt}</p>
+                        <button onClick={openVideos} className="text-sm font-semibold text-sky-600 hover:underline mt-1">View</button>
+                    </div>
+                    <button onClick={() => setFinishedVideo(null)} aria-label="Dismiss" className="text-slate-400 hover:text-slate-700 dark:hover:text-slate-200">
+                        <CloseIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
 
 // --- VIEWS / FEATURE COMPONENTS ---
 
-const ExploreView: React.FC<{ setView: (view: View) => void }> = ({ setView }) => {
-    const [carouselData, setCarouselData] = useState<ContentCarouselData[]>(exploreData);
+const VIDEO_TOPIC = "beautiful travel destinations 4k";
+
+const MAX_NEARBY_CARDS = 10;
+
+function placeCard(place: Restaurant): ContentCardData {
+    const iconProps = { className: "w-4 h-4 text-white" };
+    const icon = {
+        lodging: <BedIcon {...iconProps} />,
+        food: <RestaurantIcon {...iconProps} />,
+        nightlife: <RestaurantIcon {...iconProps} />,
+        attraction: <ActivityIcon {...iconProps} />,
+        shopping: <LocationIcon {...iconProps} />,
+    }[placeCategories(place)[0] ?? 'attraction'];
+    return {
+        title: place.name,
+        subtitle: place.vicinity.split(',')[0],
+        location: place.location,
+        imageUrl: place.imageUrl || `https://source.unsplash.com/random/400x400?${encodeURIComponent(place.name)}`,
+        icon,
+        details: [
+            place.distance !== undefined ? formatDistance(place.distance) : '',
+            place.rating > 0 ? `★ ${formatRating(place)}` : '',
+        ].filter(Boolean),
+        source: { kind: 'place', place },
+    };
+}
+
+interface ExploreViewProps {
+    setView: (view: View) => void;
+    criteria: TripCriteria;
+    onCriteriaChange: (criteria: TripCriteria) => void;
+    onConversationStarted: (conversation: Conversation) => void;
+    onStartChat: (draft: string) => void;
+}
+
+const ExploreView: React.FC<ExploreViewProps> = ({ setView, criteria, onCriteriaChange, onConversationStarted, onStartChat }) => {
+    const [nearby, setNearby] = useState<{ places: Restaurant[], location: ResolvedLocation | null } | null>(null);
+    const [placeSort, setPlaceSort] = useState<PlaceSort>('distance');
+    const [placeFilter, setPlaceFilter] = useState<PlaceFilter>(DEFAULT_PLACE_FILTER);
+    const [isPlaceListOpen, setIsPlaceListOpen] = useState(false);
+    const [openPlace, setOpenPlace] = useState<Restaurant | null>(null);
     const [isLocationLoading, setIsLocationLoading] = useState(true);
     const [locationError, setLocationError] = useState<string | null>(null);
+    // Bumped by "Try again" to rerun a failed lookup.
+    const [placesAttempt, setPlacesAttempt] = useState(0);
+    const [canRetryPlaces, setCanRetryPlaces] = useState(false);
+    const [needsLocation, setNeedsLocation] = useState(false);
     const [videoCarousel, setVideoCarousel] = useState<ContentCarouselData | null>(null);
     const [areVideosLoading, setAreVideosLoading] = useState(true);
+    const [videoError, setVideoError] = useState<string | null>(null);
+    const [videosAttempt, setVideosAttempt] = useState(0);
+    const [cardCovers, setCardCovers] = useState<Record<string, string>>({});
+    const [vlogToImport, setVlogToImport] = useState<{ url: string, title: string } | null>(null);
+    const [videoPage, setVideoPage] = useState<YouTubeSearchPage | null>(null);
+    const [playingVideo, setPlayingVideo] = useState<YouTubeVideo | null>(null);
+    const [isVideoListOpen, setIsVideoListOpen] = useState(false);
+
+    useEffect(() => {
+        imageStore.listCardCovers().then(setCardCovers).catch(error => console.error("Failed to load card covers:", error));
+    }, []);
+
+    // Swaps in covers picked in the Create view.
+    const withCovers = (carousel: ContentCarouselData): ContentCarouselData => ({
+        ...carousel,
+        cards: carousel.cards.map(card => {
+            const cover = cardCovers[imageStore.cardCoverKey(card)];
+            return cover ? { ...card, imageUrl: cover } : card;
+        }),
+    });
+
+    const query = placesQuery(criteria);
+    const destination = criteria.destination;
+
+    useEffect(() => {
+        let cancelled = false;
+        // Distances are measured from where the places were searched around: the
+        // device position, or the picked destination.
+        const showPlaces = (places: Restaurant[], origin: { lat: number, lng: number }, location: ResolvedLocation | null) => {
+            if (places.length > 0) {
+                setNearby({ places: withDistances(places, origin), location });
+            } else {
+                setLocationError(location
+                    ? `Couldn't find any places in ${location.city}. Showing default recommendations.`
+                    : "Couldn't find any places nearby. Showing default recommendations.");
+            }
+        };
 
-    const getCityFromVicinity = (vicinity: string): string => {
-        const parts = vicinity.split(',').map(p => p.trim());
-        for (let i = parts.length - 2; i >= 0; i--) {
-            if (isNaN(parseInt(parts[i], 10)) && parts[i].length > 2) {
-                 return parts[i];
+        // The carousel is titled with the place the coordinates resolve to; if
+        // that lookup fails the places are still shown, just without a name.
+        const loadNearby = async (latitude: number, longitude: number, resolve: () => Promise<ResolvedLocation>) => {
+            const locating = resolve().catch(error => {
+                console.error("Failed to resolve location:", error);
+                return null;
+            });
+            try {
+                let location: ResolvedLocation | null = null;
+                // A cached list shows at once; a newer one replaces it when it arrives.
+                const places = await lookups.getNearbyPlaces(query, latitude, longitude, refreshed => {
+                    if (!cancelled) showPlaces(refreshed, { lat: latitude, lng: longitude }, location);
+                });
+                location = await locating;
+                if (cancelled) return;
+                showPlaces(places, { lat: latitude, lng: longitude }, location);
+            } catch (apiError) {
+                if (cancelled) return;
+                console.error("Failed to fetch nearby places:", apiError);
+                setLocationError(`${describeAIError(apiError, 'load places for you')} Showing default recommendations for now.`);
+                setCanRetryPlaces(canRetry(apiError));
+            } finally {
+                if (!cancelled) setIsLocationLoading(false);
             }
+        };
+
+        // A chosen destination replaces the device location.
+        setIsLocationLoading(true);
+        setLocationError(null);
+        setCanRetryPlaces(false);
+        setNeedsLocation(false);
+        setNearby(null);
+        if (destination) {
+            loadNearby(destination.lat, destination.lng, () => resolveDestination(destination));
+            return () => { cancelled = true; };
         }
-        return parts.length > 1 ? parts[parts.length - 2] : vicinity;
-    };
 
-    useEffect(() => {
-        if (!navigator.geolocation) {
-            setLocationError("Geolocation is not supported by your browser.");
+        // Without the device location there is nothing to recommend around, so
+        // Explore asks for a place instead.
+        const askForLocation = (message: string) => {
+            setLocationError(message);
+            setNeedsLocation(true);
             setIsLocationLoading(false);
+        };
+
+        if (!navigator.geolocation) {
+            askForLocation("This browser can't share your location. Search for a place to see recommendations there.");
             return;
         }
 
         navigator.geolocation.getCurrentPosition(
-            async (position) => {
-                try {
-                    const { latitude, longitude } = position.coords;
-                    const places = await gemini.getNearbyRestaurants("popular restaurants, hotels, attractions", latitude, longitude);
-                    
-                    if (places.length > 0) {
-                        const nearbyCards: ContentCardData[] = places.slice(0, 10).map(p => {
-                            const isHotel = Array.isArray(p.types) && p.types.some(t => t.includes('hotel') || t.includes('lodging'));
-                            return {
-                                title: p.name,
-                                subtitle: p.vicinity.split(',')[0],
-                                imageUrl: p.imageUrl || `https://source.unsplash.com/random/400x400?${encodeURIComponent(p.name)}`,
-                                icon: isHotel 
-                                    ? React.createElement(BedIcon, { className: "w-4 h-4 text-white" })
-                                    : React.createElement(RestaurantIcon, { className: "w-4 h-4 text-white" })
-                            };
-                        });
-
-                        const locationName = getCityFromVicinity(places[0].vicinity);
-
-                        const nearbyCarousel: ContentCarouselData = {
-                            title: 'For you in',
-                            location: locationName,
-                            showMapButton: true,
-                            cards: nearbyCards,
-                        };
-                        
-                        setCarouselData(prevData => [nearbyCarousel, ...prevData.slice(1)]);
-                    } else {
-                        setLocationError("Couldn't find any places nearby. Showing default recommendations.");
-                    }
-                } catch (apiError) {
-                    console.error("Failed to fetch nearby places:", apiError);
-                    setLocationError("Could not fetch nearby places. Showing default recommendations.");
-                } finally {
-                    setIsLocationLoading(false);
-                }
+            ({ coords }) => {
+                if (!cancelled) loadNearby(coords.latitude, coords.longitude, () => lookups.reverseGeocode(coords.latitude, coords.longitude));
             },
             (geoError) => {
+                if (cancelled) return;
                 console.error("Geolocation error:", geoError);
-                if (geoError.code === geoError.PERMISSION_DENIED) {
-                    setLocationError("Enable location services to see local recommendations.");
-                } else {
-                    setLocationError("Could not access your location. Showing default recommendations.");
-                }
-                setIsLocationLoading(false);
+                askForLocation(geoError.code === geoError.PERMISSION_DENIED
+                    ? "Location access is off. Search for a place to see recommendations there."
+                    : "Couldn't get your location. Search for a place to see recommendations there.");
             }
         );
-    }, []);
+        return () => { cancelled = true; };
+    }, [query, destination?.name, destination?.lat, destination?.lng, placesAttempt]);
 
     useEffect(() => {
+        let cancelled = false;
+        const showVideos = (page: YouTubeSearchPage) => {
+            setVideoPage(page);
+            if (page.videos.length > 0) {
+                const videoCards: ContentCardData[] = page.videos.map(v => ({
+                    title: v.title,
+                    subtitle: v.channelTitle,
+                    imageUrl: v.thumbnailUrl,
+                    url: watchUrl(v.videoId),
+                    source: { kind: 'video', video: v },
+                }));
+
+                const videoCarouselData: ContentCarouselData = {
+                    title: "Watch and Wander",
+                    cards: videoCards,
+                    seeAllLink: true,
+                };
+                setVideoCarousel(videoCarouselData);
+            } else {
+                setVideoError("Couldn't find any travel videos right now.");
+            }
+        };
+
         const fetchVideos = async () => {
             try {
-                const videos = await gemini.findYouTubeVideosByTopic("beautiful travel destinations 4k");
-                if (videos.length > 0) {
-                    const videoCards: ContentCardData[] = videos.map(v => ({
-                        title: v.title,
-                        subtitle: v.channelTitle,
-                        imageUrl: v.thumbnailUrl,
-                        url: `https://www.youtube.com/watch?v=${v.videoId}`,
-                    }));
-
-                    const videoCarouselData: ContentCarouselData = {
-                        title: "Watch and Wander",
-                        cards: videoCards,
-                        seeAllLink: true,
-                    };
-                    setVideoCarousel(videoCarouselData);
-                }
+                const page = await lookups.getTravelVideos(VIDEO_TOPIC, refreshed => {
+                    if (!cancelled) showVideos(refreshed);
+                });
+                if (cancelled) return;
+                showVideos(page);
             } catch (error) {
+                if (cancelled) return;
                 console.error("Failed to fetch YouTube videos:", error);
+                setVideoError(describeAIError(error, 'load travel videos'));
             } finally {
-                setAreVideosLoading(false);
+                if (!cancelled) setAreVideosLoading(false);
             }
         };
 
+        setAreVideosLoading(true);
+        setVideoError(null);
         fetchVideos();
-    }, []);
+        return () => { cancelled = true; };
+    }, [videosAttempt]);
+
 
+    const shownPlaces = useMemo(
+        () => nearby ? sortPlaces(filterPlaces(nearby.places, placeFilter), placeSort) : [],
+        [nearby, placeFilter, placeSort]
+    );
+
+    const nearbyCarousel: ContentCarouselData = nearby ? {
+        title: nearby.location ? 'For you in' : 'For you nearby',
+        location: nearby.location?.city,
+        showMapButton: true,
+        seeAllLink: true,
+        cards: shownPlaces.slice(0, MAX_NEARBY_CARDS).map(placeCard),
+    } : exploreData[0];
 
     const LocationCarouselPlaceholder = () => (
         <div>
@@ -223,39 +496,150 @@ const ExploreView: React.FC<{ setView: (view: View) => void }> = ({ setView }) =
     
     return (
         <div className="p-8 max-w-full">
-             <div className="flex items-center gap-2 mb-8">
-                <button className="px-4 py-2 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500">Where</button>
-                <button className="px-4 py-2 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500">When</button>
-                <button className="px-4 py-2 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500">2 travelers</button>
-                <button className="px-4 py-2 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500">Budget</button>
-            </div>
+            <ExploreFilters criteria={criteria} onChange={onCriteriaChange} />
             <div className="space-y-10">
                 {isLocationLoading ? (
                     <LocationCarouselPlaceholder />
+                ) : needsLocation ? (
+                    <section className="max-w-md mx-auto bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl p-4 space-y-2">
+                        <h2 className="text-lg font-bold">Where are you exploring?</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">{locationError}</p>
+                        <LocationPicker onPick={picked => picked && onCriteriaChange({ ...criteria, destination: picked })} />
+                    </section>
+                ) : nearby ? (
+                    <ContentCarousel
+                        carousel={withCovers(nearbyCarousel)}
+                        onOpenPlace={setOpenPlace}
+                        onSeeAll={() => setIsPlaceListOpen(true)}
+                        toolbar={
+                            <PlaceControls
+                                sort={placeSort}
+                                filter={placeFilter}
+                                onSortChange={setPlaceSort}
+                                onFilterChange={setPlaceFilter}
+                                shownCount={shownPlaces.length}
+                                totalCount={nearby.places.length}
+                            />
+                        }
+                    />
                 ) : (
-                    <ContentCarousel carousel={carouselData[0]} />
+                    <ContentCarousel carousel={withCovers(nearbyCarousel)} />
                 )}
 
-                {locationError && !isLocationLoading && (
-                    <p className="text-sm text-slate-500 dark:text-slate-400 text-center -mt-6">{locationError}</p>
+                {locationError && !isLocationLoading && !needsLocation && (
+                    <p className="text-sm text-slate-500 dark:text-slate-400 text-center -mt-6">
+                        {locationError}
+                        {canRetryPlaces && <button onClick={() => setPlacesAttempt(n => n + 1)} className="ml-2 font-semibold text-sky-600 hover:underline">Try again</button>}
+                    </p>
                 )}
 
                 {areVideosLoading ? (
                     <LocationCarouselPlaceholder />
-                ) : videoCarousel && (
-                    <ContentCarousel carousel={videoCarousel} />
+                ) : videoCarousel ? (
+                    <ContentCarousel
+                        carousel={withCovers(videoCarousel)}
+                        onPlanFromVideo={card => card.url && setVlogToImport({ url: card.url, title: card.title })}
+                        onPlayVideo={setPlayingVideo}
+                        onSeeAll={() => setIsVideoListOpen(true)}
+                    />
+                ) : videoError && (
+                    <p className="text-sm text-slate-500 dark:text-slate-400 text-center">
+                        {videoError}
+                        <button onClick={() => setVideosAttempt(n => n + 1)} className="ml-2 font-semibold text-sky-600 hover:underline">Try again</button>
+                    </p>
                 )}
 
-                {carouselData.slice(1).map((carousel, index) => (
-                    <ContentCarousel key={index + 1} carousel={carousel} />
+                {exploreData.slice(1).map((carousel, index) => (
+                    <ContentCarousel key={index + 1} carousel={withCovers(carousel)} />
                 ))}
             </div>
+            {isPlaceListOpen && nearby && (
+                <PlaceResultsDialog
+                    title={nearby.location ? `For you in ${nearby.location.city}` : 'For you nearby'}
+                    places={nearby.places}
+                    sort={placeSort}
+                    filter={placeFilter}
+                    onSortChange={setPlaceSort}
+                    onFilterChange={setPlaceFilter}
+                    onOpenPlace={setOpenPlace}
+                    onClose={() => setIsPlaceListOpen(false)}
+                />
+            )}
+            {openPlace && (
+                <PlaceDrawer
+                    key={openPlace.placeId}
+                    place={openPlace}
+                    city={nearby?.location?.city}
+                    onClose={() => setOpenPlace(null)}
+                    onPlayVideo={setPlayingVideo}
+                    onAskAbout={onStartChat}
+                />
+            )}
+            {isVideoListOpen && videoCarousel && videoPage && (
+                <VideoResultsDialog
+                    title={videoCarousel.title}
+                    query={VIDEO_TOPIC}
+                    firstPage={videoPage}
+                    onPlay={setPlayingVideo}
+                    onClose={() => setIsVideoListOpen(false)}
+                />
+            )}
+            {playingVideo && (
+                <VideoPlayerModal
+                    video={playingVideo}
+                    onClose={() => setPlayingVideo(null)}
+                    onPlanTrip={video => {
+                        setPlayingVideo(null);
+                        setIsVideoListOpen(false);
+                        setVlogToImport({ url: watchUrl(video.videoId), title: video.title });
+                    }}
+                />
+            )}
+            {vlogToImport && (
+                <VlogImportDialog
+                    initialVideo={vlogToImport}
+                    onClose={() => setVlogToImport(null)}
+                    onOpenConversation={onConversationStarted}
+                />
+            )}
         </div>
     );
 };
 
-const ContentCarousel: React.FC<{ carousel: ContentCarouselData }> = ({ carousel }) => {
+interface ContentCarouselProps {
+    carousel: ContentCarouselData;
+    onPlanFromVideo?: (card: ContentCardData) => void;
+    // When set, video cards play in the app instead of opening YouTube.
+    onPlayVideo?: (video: YouTubeVideo) => void;
+    // When set, place cards open their details.
+    onOpenPlace?: (place: Restaurant) => void;
+    onSeeAll?: () => void;
+    // Shown between the title row and the cards, e.g. sort and filter controls.
+    toolbar?: React.ReactNode;
+}
+
+const ContentCarousel: React.FC<ContentCarouselProps> = ({ carousel, onPlanFromVideo, onPlayVideo, onOpenPlace, onSeeAll, toolbar }) => {
     const scrollRef = useRef<HTMLDivElement>(null);
+    const cardRefs = useRef<(HTMLDivElement | null)[]>([]);
+    const [isMapOpen, setIsMapOpen] = useState(false);
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+    const mapPoints = useMemo<(MapPoint | null)[]>(
+        () => carousel.cards.map(card => card.location ? { label: card.title, ...card.location } : null),
+        [carousel.cards]
+    );
+
+    const handleMarkerSelect = (index: number) => {
+        setSelectedIndex(index);
+        cardRefs.current[index]?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'center' });
+    };
+
+    const openerFor = (card: ContentCardData) => {
+        const source = card.source;
+        if (source?.kind === 'video' && onPlayVideo) return () => onPlayVideo(source.video);
+        if (source?.kind === 'place' && onOpenPlace) return () => onOpenPlace(source.place);
+        return undefined;
+    };
 
     const scroll = (direction: 'left' | 'right') => {
         if (scrollRef.current) {
@@ -270,10 +654,20 @@ const ContentCarousel: React.FC<{ carousel: ContentCarouselData }> = ({ carousel
                 <div className="flex items-baseline gap-2">
                     <h2 className="text-xl font-bold">{carousel.title}</h2>
                     {carousel.location && <p className="font-semibold text-slate-700 dark:text-slate-300 flex items-center gap-1"><LocationIcon className="w-4 h-4"/>{carousel.location}</p>}
-                    {carousel.showMapButton && <button className="ml-2 flex items-center gap-1 px-3 py-1 border border-slate-300 dark:border-slate-700 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500"><MapIcon className="w-4 h-4" />Map</button>}
+                    {carousel.showMapButton && (
+                        <button
+                            onClick={() => setIsMapOpen(open => !open)}
+                            className={`ml-2 flex items-center gap-1 px-3 py-1 border rounded-full text-sm font-semibold ${isMapOpen ? 'border-slate-800 dark:border-slate-200' : 'border-slate-300 dark:border-slate-700 hover:border-slate-400 dark:hover:border-slate-500'}`}
+                            aria-pressed={isMapOpen}
+                        >
+                            <MapIcon className="w-4 h-4" />{isMapOpen ? 'Hide map' : 'Map'}
+                        </button>
+                    )}
                 </div>
                 <div className="flex items-center gap-2">
-                    {carousel.seeAllLink && <a href="#" className="text-sm font-semibold hover:underline">See all</a>}
+                    {carousel.seeAllLink && (onSeeAll
+                        ? <button onClick={onSeeAll} className="text-sm font-semibold hover:underline">See all</button>
+                        : <a href="#" className="text-sm font-semibold hover:underline">See all</a>)}
                      <button onClick={() => scroll('left')} className="p-1 rounded-full border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50">
                         <ChevronLeftIcon className="w-5 h-5" />
                     </button>
@@ -282,25 +676,58 @@ const ContentCarousel: React.FC<{ carousel: ContentCarouselData }> = ({ carousel
                     </button>
                 </div>
             </div>
-            <div ref={scrollRef} className="flex gap-4 overflow-x-auto no-scrollbar pb-2 -mb-2">
+            {toolbar && <div className="mb-4">{toolbar}</div>}
+            {isMapOpen && (
+                <MapPanel points={mapPoints} selectedIndex={selectedIndex} onSelect={handleMarkerSelect} className="mb-4" />
+            )}
+            <div ref={scrollRef} className="flex gap-4 overflow-x-auto no-scrollbar p-1 -m-1 pb-2 -mb-2">
                 {carousel.cards.map((card, index) => (
-                    <ContentCard key={index} card={card} />
+                    <div
+                        key={index}
+                        ref={(el) => { cardRefs.current[index] = el; }}
+                        onMouseEnter={() => isMapOpen && setSelectedIndex(index)}
+                        className="flex-shrink-0 relative"
+                    >
+                        <ContentCard
+                            card={card}
+                            isHighlighted={isMapOpen && selectedIndex === index}
+                            onOpen={openerFor(card)}
+                        />
+                        <SaveButton data={card.source ?? { kind: 'card', card: savedCard(card) }} className="absolute top-3 left-3" />
+                        {onPlanFromVideo && card.url && (
+                            <button
+                                onClick={() => onPlanFromVideo(card)}
+                                className="absolute top-3 right-3 flex items-center gap-1 px-3 py-1 rounded-full bg-black/50 text-white text-sm font-semibold hover:bg-black/70"
+                            >
+                                <TripsIcon className="w-4 h-4" />
+                                Plan trip
+                            </button>
+                        )}
+                    </div>
                 ))}
             </div>
         </div>
     )
 };
 
-const ContentCard: React.FC<{ card: ContentCardData }> = ({ card }) => {
+const ContentCard: React.FC<{ card: ContentCardData, isHighlighted?: boolean, onOpen?: () => void }> = ({ card, isHighlighted = false, onOpen }) => {
     const cardWidth = card.subtitle ? 'w-72' : 'w-96';
 
     const Wrapper = card.url ? 'a' : 'div';
     const wrapperProps: any = card.url 
         ? { href: card.url, target: '_blank', rel: 'noopener noreferrer' } 
         : {};
+    if (onOpen) {
+        // Keeps the link for opening in a new tab, but a plain click stays in the app.
+        wrapperProps.onClick = (e: React.MouseEvent) => {
+            if (e.metaKey || e.ctrlKey || e.shiftKey) return;
+            e.preventDefault();
+            onOpen();
+        };
+    }
     
     return (
-        <Wrapper {...wrapperProps} className={`block flex-shrink-0 ${cardWidth} h-96 rounded-2xl overflow-hidden relative group cursor-pointer`}>
+        <Wrapper {...wrapperProps} className={`block flex-shrink-0 ${cardWidth} h-96 rounded-2xl overflow-hidden relative group cursor-pointer transition-shadow ${isHighlighted ? 'ring-4 ring-sky-500' : ''}`}>
             <img src={card.imageUrl} alt={card.title} className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105" />
             <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-black/20 to-transparent"></div>
              {card.url && ( // Show play icon only for videos
@@ -316,6 +743,9 @@ const ContentCard: React.FC<{ card: ContentCardData }> = ({ card }) => {
                     <p className="text-sm font-medium">{card.subtitle}</p>
                   </div>
                 )}
+                {card.details && card.details.length > 0 && (
+                  <p className="text-sm text-white/80 mt-1">{card.details.join(' · ')}</p>
+                )}
             </div>
         </Wrapper>
     )
@@ -335,68 +765,344 @@ const getActivityIcon = (type: Activity['type']) => {
     }
 };
 
-const ItineraryView: React.FC<{ data: Itinerary }> = ({ data }) => (
-    <div className="p-1">
-        <h2 className="text-xl font-bold mb-1">{data.destination}</h2>
-        <div className="flex gap-4 text-sm text-slate-600 dark:text-slate-400 mb-4">
-            <span>{data.duration}</span>
-            <span>&bull;</span>
-            <span>{data.budget}</span>
+const SaveToTripsButton: React.FC<{ onSave: () => Promise<void> }> = ({ onSave }) => {
+    const [status, setStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+
+    const handleClick = async () => {
+        setStatus('saving');
+        try {
+            await onSave();
+            setStatus('saved');
+        } catch (error) {
+            console.error("Failed to save trip:", error);
+            setStatus('error');
+        }
+    };
+
+    const labels = { idle: 'Save to Trips', saving: 'Saving...', saved: 'Saved to Trips', error: 'Retry save' };
+    return (
+        <button
+            onClick={handleClick}
+            disabled={status === 'saving' || status === 'saved'}
+            className="flex items-center gap-1 px-3 py-1 border border-slate-300 dark:border-slate-600 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500 disabled:opacity-60"
+        >
+            <TripsIcon className="w-4 h-4" />
+            {labels[status]}
+        </button>
+    );
+};
+
+const ActivityDetails: React.FC<{ activity: Activity, destination: string, sourceVideo?: SourceVideo }> = ({ activity, destination, sourceVideo }) => {
+    const { placeName, location, durationMinutes, estimatedCost, url, videoTimestamp } = activity;
+    if (!placeName && !durationMinutes && !estimatedCost && !url && videoTimestamp === undefined) return null;
+    const videoUrl = videoTimestamp !== undefined ? timestampUrl(sourceVideo, videoTimestamp) : undefined;
+    const mapsUrl = location
+        ? `https://www.google.com/maps/search/?api=1&query=${location.lat},${location.lng}`
+        : placeName ? `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(placeName)}` : undefined;
+    return (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs text-slate-500 dark:text-slate-400">
+            {placeName && (
+                <span className="flex items-center gap-1">
+                    <a href={mapsUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 hover:underline">
+                        <LocationIcon className="w-3.5 h-3.5" />
+                        {placeName}
+                    </a>
+                    <SaveButton data={{ kind: 'activity', activity, destination }} variant="inline" />
+                </span>
+            )}
+            {durationMinutes ? <span>~{formatDuration(durationMinutes)}</span> : null}
+            {estimatedCost && <span>{estimatedCost.amount === 0 ? 'Free' : formatMoney(estimatedCost)}</span>}
+            {url && <a href={url} target="_blank" rel="noopener noreferrer" className="font-semibold text-sky-600 hover:underline">Website / booking</a>}
+            {videoTimestamp !== undefined && (videoUrl ? (
+                <a href={videoUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 font-semibold text-sky-600 hover:underline">
+                    <VideoIcon className="w-3.5 h-3.5" />
+                    Watch at {formatTimestamp(videoTimestamp)}
+                </a>
+            ) : (
+                <span className="flex items-center gap-1"><VideoIcon className="w-3.5 h-3.5" />At {formatTimestamp(videoTimestamp)} in the video</span>
+            ))}
         </div>
-        <div className="space-y-4">
-            {data.itinerary.map((day, index) => (
-                <div key={index}>
-                    <h3 className="font-bold text-lg mb-2">{`Day ${day.day}: ${day.title}`}</h3>
-                    <p className="text-sm text-slate-600 dark:text-slate-400 mb-3">{day.summary}</p>
-                    <ul className="space-y-3 border-l-2 border-slate-200 dark:border-slate-700 ml-2 pl-6">
-                        {day.activities.map((activity, actIndex) => (
-                            <li key={actIndex} className="relative">
-                                <div className="absolute -left-[34px] top-1 w-4 h-4 bg-slate-200 dark:bg-slate-700 rounded-full border-4 border-white dark:border-slate-900"></div>
-                                <div className="flex items-start gap-3">
-                                    {getActivityIcon(activity.type)}
-                                    <div>
-                                        <p className="font-semibold">{activity.time}</p>
-                                        <p className="text-slate-600 dark:text-slate-400">{activity.description}</p>
+    );
+};
+
+const formatCosts = (costs: Money[]) => costs.map(formatMoney).join(' + ');
+
+const TripCostSummary: React.FC<{ itinerary: Itinerary }> = ({ itinerary }) => {
+    const costs = itineraryCosts(itinerary);
+    if (costs.length === 0) return null;
+    const budget = parseBudget(itinerary.budget);
+    // Only compare when everything was priced in the budget's currency.
+    const comparable = budget && costs.length === 1 && costs[0].currency === budget.currency ? budget : null;
+    const isOver = comparable && costs[0].amount > comparable.amount;
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm mb-4">
+            <span className="font-semibold">Estimated activities: {formatCosts(costs)}</span>
+            {comparable && (
+                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${isOver ? 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300' : 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300'}`}>
+                    {isOver
+                        ? `${formatMoney({ ...comparable, amount: costs[0].amount - comparable.amount })} over budget`
+                        : `${Math.round((costs[0].amount / comparable.amount) * 100)}% of budget`}
+                </span>
+            )}
+        </div>
+    );
+};
+
+interface DayEditRequest {
+    mode: gemini.DayEditMode;
+    index: number;
+}
+
+const ItineraryView: React.FC<{ data: Itinerary, onSave?: () => Promise<void>, onChange?: (itinerary: Itinerary) => void }> = ({ data, onSave, onChange }) => {
+    const [pendingEdit, setPendingEdit] = useState<DayEditRequest | null>(null);
+    const [promptFor, setPromptFor] = useState<DayEditRequest | null>(null);
+    const [instruction, setInstruction] = useState('');
+    const [editError, setEditError] = useState<string | null>(null);
+    const [mapDayIndex, setMapDayIndex] = useState<number | null>(null);
+    const [selectedActivity, setSelectedActivity] = useState<number | null>(null);
+
+    const toggleDayMap = (index: number) => {
+        setSelectedActivity(null);
+        setMapDayIndex(current => current === index ? null : index);
+    };
+
+    const runDayEdit = async (request: DayEditRequest, dayInstruction?: string) => {
+        if (!onChange || pendingEdit) return;
+        setPromptFor(null);
+        setInstruction('');
+        setEditError(null);
+        setPendingEdit(request);
+        try {
+            const day = await gemini.generateItineraryDay(data, request.mode, request.index, dayInstruction);
+            onChange(request.mode === 'insert'
+                ? insertDay(data, request.index, day)
+                : replaceDay(data, request.index, day));
+        } catch (error) {
+            console.error("Failed to update itinerary day:", error);
+            setEditError(error instanceof ModelResponseError
+                ? `${error.message} Please try again.`
+                : "Couldn't update that day. Please try again.");
+        } finally {
+            setPendingEdit(null);
+        }
+    };
+
+    const isPromptOpen = (mode: gemini.DayEditMode, index: number) => promptFor?.mode === mode && promptFor.index === index;
+
+    const renderInstructionForm = (request: DayEditRequest) => (
+        <form
+            className="flex gap-2 my-3"
+            onSubmit={(e) => {
+                e.preventDefault();
+                if (request.mode === 'refine' && !instruction.trim()) return;
+                runDayEdit(request, instruction.trim() || undefined);
+            }}
+        >
+            <input
+                autoFocus
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                placeholder={request.mode === 'refine' ? 'e.g. Make it less rushed' : 'Optional: what should this day include?'}
+                className="flex-1 bg-white dark:bg-slate-900 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+            />
+            <button type="submit" className="px-3 py-1.5 rounded-lg bg-sky-500 text-white text-sm font-semibold hover:bg-sky-600">
+                {request.mode === 'refine' ? 'Refine' : 'Add day'}
+            </button>
+            <button type="button" onClick={() => setPromptFor(null)} className="px-2 text-sm text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">
+                Cancel
+            </button>
+        </form>
+    );
+
+    const renderInsertSlot = (index: number) => {
+        if (!onChange) return null;
+        if (pendingEdit?.mode === 'insert' && pendingEdit.index === index) {
+            return <p className="text-sm text-sky-600 animate-pulse">Planning a new day...</p>;
+        }
+        if (isPromptOpen('insert', index)) return renderInstructionForm({ mode: 'insert', index });
+        return (
+            <button
+                onClick={() => { setInstruction(''); setPromptFor({ mode: 'insert', index }); }}
+                disabled={!!pendingEdit}
+                className="text-xs font-semibold text-slate-400 hover:text-sky-600 disabled:opacity-50"
+            >
+                + Insert day here
+            </button>
+        );
+    };
+
+    const dayActionClassName = "px-2 py-0.5 rounded-full border border-slate-300 dark:border-slate-600 text-xs font-semibold hover:border-slate-400 dark:hover:border-slate-500 disabled:opacity-50";
+
+    return (
+        <div className="p-1">
+            <div className="flex items-start justify-between gap-4 mb-1">
+                <h2 className="text-xl font-bold">{data.destination}</h2>
+                {onSave && (
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                        <ExportMenu itinerary={data} />
+                        <SaveToTripsButton onSave={onSave} />
+                    </div>
+                )}
+            </div>
+            <div className="flex gap-4 text-sm text-slate-600 dark:text-slate-400 mb-4">
+                <span>{data.duration}</span>
+                <span>&bull;</span>
+                <span>{data.budget}</span>
+            </div>
+            {data.sourceVideo && (
+                <p className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-400 -mt-2 mb-4">
+                    <VideoIcon className="w-4 h-4" />
+                    From {data.sourceVideo.url
+                        ? <a href={data.sourceVideo.url} target="_blank" rel="noopener noreferrer" className="font-semibold hover:underline">{data.sourceVideo.title}</a>
+                        : <span className="font-semibold">{data.sourceVideo.title}</span>}
+                </p>
+            )}
+            <TripCostSummary itinerary={data} />
+            {editError && <p className="text-sm text-red-600 mb-3">{editError}</p>}
+            <div className="space-y-4">
+                {data.itinerary.map((day, index) => {
+                    const isUpdating = pendingEdit?.index === index && pendingEdit.mode !== 'insert';
+                    const dayCosts = sumCosts(day.activities);
+                    const hasLocations = day.activities.some(a => a.location);
+                    const isMapOpen = mapDayIndex === index;
+                    return (
+                        <React.Fragment key={index}>
+                            {index > 0 && renderInsertSlot(index)}
+                            <div className={isUpdating ? 'opacity-50 animate-pulse' : ''}>
+                                <div className="flex items-start justify-between gap-3 mb-2">
+                                    <h3 className="font-bold text-lg">{`Day ${day.day}: ${day.title}`}</h3>
+                                    <div className="flex items-center gap-1 flex-shrink-0 mt-1">
+                                        <SpeakButton title={`${data.destination}, day ${day.day}`} text={daySpeechText(day)} label="Narrate" className={dayActionClassName} />
+                                        {hasLocations && (
+                                            <button onClick={() => toggleDayMap(index)} className={`${dayActionClassName} flex items-center gap-1`} aria-pressed={isMapOpen}>
+                                                <MapIcon className="w-3.5 h-3.5" />{isMapOpen ? 'Hide map' : 'Map'}
+                                            </button>
+                                        )}
+                                        {onChange && <>
+                                        <button onClick={() => runDayEdit({ mode: 'regenerate', index })} disabled={!!pendingEdit} className={dayActionClassName}>
+                                            Regenerate
+                                        </button>
+                                        <button onClick={() => { setInstruction(''); setPromptFor({ mode: 'refine', index }); }} disabled={!!pendingEdit} className={dayActionClassName}>
+                                            Refine
+                                        </button>
+                                        </>}
                                     </div>
                                 </div>
-                            </li>
-                        ))}
-                    </ul>
-                </div>
-            ))}
+                                {isPromptOpen('refine', index) && renderInstructionForm({ mode: 'refine', index })}
+                                <p className="text-sm text-slate-600 dark:text-slate-400 mb-3">
+                                    {day.summary}
+                                    {dayCosts.length > 0 && <span className="ml-2 font-semibold whitespace-nowrap">&bull; Est. {formatCosts(dayCosts)}</span>}
+                                </p>
+                                {isMapOpen && (
+                                    <MapPanel
+                                        points={day.activities.map(a => a.location ? { label: a.placeName || a.description, ...a.location } : null)}
+                                        selectedIndex={selectedActivity}
+                                        onSelect={setSelectedActivity}
+                                        className="mb-3"
+                                    />
+                                )}
+                                <ul className="space-y-3 border-l-2 border-slate-200 dark:border-slate-700 ml-2 pl-6">
+                                    {day.activities.map((activity, actIndex) => (
+                                        <li
+                                            key={actIndex}
+                                            onClick={() => isMapOpen && activity.location && setSelectedActivity(actIndex)}
+                                            className="relative"
+                                        >
+                                            <div className="absolute -left-[34px] top-1 w-4 h-4 bg-slate-200 dark:bg-slate-700 rounded-full border-4 border-white dark:border-slate-900"></div>
+                                            <div className={`flex items-start gap-3 rounded-lg transition-colors ${isMapOpen && selectedActivity === actIndex ? 'bg-sky-100 dark:bg-sky-900/40 -m-1 p-1' : ''}`}>
+                                                {getActivityIcon(activity.type)}
+                                                <div>
+                                                    <p className="font-semibold">{activity.time}</p>
+                                                    <p className="text-slate-600 dark:text-slate-400">{activity.description}</p>
+                                                    <ActivityDetails activity={activity} destination={data.destination} sourceVideo={data.sourceVideo} />
+                                                </div>
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        </React.Fragment>
+                    );
+                })}
+                {data.itinerary.length > 0 && renderInsertSlot(data.itinerary.length)}
+            </div>
         </div>
-    </div>
-);
+    );
+};
 
-const MessageContentView: React.FC<{ content: StructuredContent, contentType: ContentType }> = ({ content, contentType }) => {
+interface ItineraryHandlers {
+    onSaveItinerary?: (itinerary: Itinerary) => Promise<void>;
+    onUpdateItinerary?: (itinerary: Itinerary) => void;
+}
+
+const MessageContentView: React.FC<{ content: StructuredContent, contentType: ContentType } & ItineraryHandlers> = ({ content, contentType, onSaveItinerary, onUpdateItinerary }) => {
     if (contentType === 'itinerary' && typeof content === 'object' && content && 'destination' in content) {
-        return <ItineraryView data={content as Itinerary} />;
+        const itinerary = content as Itinerary;
+        return <ItineraryView data={itinerary} onSave={onSaveItinerary && (() => onSaveItinerary(itinerary))} onChange={onUpdateItinerary} />;
+    }
+    if (contentType === 'news' && Array.isArray(content)) {
+        return (
+            <div className="space-y-3">
+                {content.map(article => <NewsArticleCard key={article.url} article={article} />)}
+            </div>
+        );
     }
     const textContent = typeof content === 'string' ? content : JSON.stringify(content, null, 2);
     return <p className="whitespace-pre-wrap">{textContent}</p>;
 };
 
-const MessageBubble: React.FC<{ message: ChatMessage }> = ({ message }) => {
+const MessageBubble: React.FC<{ message: ChatMessage } & ItineraryHandlers> = ({ message, onSaveItinerary, onUpdateItinerary }) => {
     const isUser = message.role === 'user';
     return (
         <div className={`flex w-full ${isUser ? 'justify-end' : 'justify-start'}`}>
             <div className={`max-w-2xl p-4 rounded-2xl ${isUser ? 'bg-sky-500 text-white rounded-br-none' : 'bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-slate-200 rounded-bl-none'}`}>
-                 <MessageContentView content={message.content} contentType={message.contentType} />
+                {message.groundingChunks?.length && typeof message.content === 'string' ? (
+                    <CitedText text={message.content} chunks={message.groundingChunks} supports={message.groundingSupports} />
+                ) : (
+                    <MessageContentView content={message.content} contentType={message.contentType} onSaveItinerary={onSaveItinerary} onUpdateItinerary={onUpdateItinerary} />
+                )}
+                <div className="flex justify-end mt-2 -mb-1">
+                    <SpeakButton
+                        title={isUser ? 'Your message' : 'TravelMind answer'}
+                        text={messageSpeechText(message)}
+                        className={isUser ? 'text-sky-100 hover:text-white' : 'text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}
+                    />
+                </div>
             </div>
         </div>
     );
 };
 
-const ChatView = () => {
+interface ChatViewProps {
+    conversationId: string | null;
+    title: string;
+    // Explore filter summary that a brand-new chat starts with.
+    newChatContext?: string;
+    // Text to put in the input box of a new chat, left for the user to edit and send.
+    draft?: string | null;
+    onDraftUsed?: () => void;
+    onConversationSaved: (conversation: Conversation) => void;
+}
+
+const ChatView: React.FC<ChatViewProps> = ({ conversationId, title, newChatContext, draft, onDraftUsed, onConversationSaved }) => {
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [inputMessage, setInputMessage] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    const [streamingMessage, setStreamingMessage] = useState<ChatMessage | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+    const [groundingEnabled, setGroundingEnabled] = useState(true);
+    const [tripContext, setTripContext] = useState<string | undefined>(conversationId ? undefined : newChatContext);
+    const [replyError, setReplyError] = useState<{ message: string, canRetry: boolean } | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const currentIdRef = useRef<string | null>(null);
+    const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+    const messagesRef = useRef<ChatMessage[]>([]);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
 
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-    }, [messages, isLoading]);
+    }, [messages, isLoading, streamingMessage]);
 
     useEffect(() => {
         if (textareaRef.current) {
@@ -406,6 +1112,87 @@ const ChatView = () => {
         }
     }, [inputMessage]);
 
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    useEffect(() => {
+        if (!draft || conversationId) return;
+        setInputMessage(draft);
+        textareaRef.current?.focus();
+        onDraftUsed?.();
+    }, [draft, conversationId]);
+
+    useEffect(() => {
+        messagesRef.current = messages;
+    }, [messages]);
+
+    useEffect(() => {
+        // Ids assigned by this view when a thread is first saved need no reload.
+        if (conversationId === currentIdRef.current) return;
+        abortControllerRef.current?.abort();
+        currentIdRef.current = conversationId;
+        setMessages([]);
+        setReplyError(null);
+        setGroundingEnabled(true);
+        setTripContext(conversationId ? undefined : newChatContext);
+        if (!conversationId) return;
+
+        let cancelled = false;
+        conversationStore.getConversation(conversationId).then(conversation => {
+            if (cancelled || !conversation) return;
+            setMessages(conversation.messages);
+            setGroundingEnabled(conversation.groundingEnabled !== false);
+            setTripContext(conversation.tripContext);
+        }).catch(error => console.error("Failed to load conversation:", error));
+        return () => { cancelled = true; };
+    }, [conversationId]);
+
+    const persistMessages = (next: ChatMessage[]) => {
+        if (!currentIdRef.current) currentIdRef.current = crypto.randomUUID();
+        const id = currentIdRef.current;
+        const settings = { groundingEnabled, tripContext };
+        saveChainRef.current = saveChainRef.current
+            .then(() => conversationStore.saveMessages(id, next, settings))
+            .then(conversation => {
+                if (currentIdRef.current === conversation.id) onConversationSaved(conversation);
+            })
+            .catch(error => console.error("Failed to save conversation:", error));
+    };
+
+    const replaceMessage = (original: ChatMessage, message: ChatMessage) => {
+        // The original may be gone if the user switched threads meanwhile.
+        if (!messagesRef.current.includes(original)) return;
+        const next = messagesRef.current.map(m => m === original ? message : m);
+        setMessages(next);
+        persistMessages(next);
+    };
+
+    const appendMessage = (history: ChatMessage[], message: ChatMessage): ChatMessage[] => {
+        const next = [...history, message];
+        setMessages(next);
+        persistMessages(next);
+        return next;
+    };
+
+    const handleSaveItinerary = async (itinerary: Itinerary) => {
+        await tripStore.createTrip(itinerary, currentIdRef.current ?? undefined);
+    };
+
+    const toggleGrounding = () => {
+        const enabled = !groundingEnabled;
+        setGroundingEnabled(enabled);
+        // A thread that has not been saved yet picks the setting up on its first save.
+        const id = currentIdRef.current;
+        if (id) {
+            saveChainRef.current = saveChainRef.current
+                .then(() => conversationStore.setGroundingEnabled(id, enabled))
+                .catch(error => console.error("Failed to save conversation settings:", error));
+        }
+    };
+
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleSend = async () => {
         const trimmedMessage = inputMessage.trim();
         if (!trimmedMessage || isLoading) return;
@@ -413,54 +1200,101 @@ const ChatView = () => {
         const userMessage: ChatMessage = {
             role: 'user', content: trimmedMessage, contentType: 'text',
         };
-        setMessages(prev => [...prev, userMessage]);
+        const history = appendMessage(messages, userMessage);
         setInputMessage('');
+        await requestReply(messages, history, trimmedMessage);
+    };
+
+    // Asks again for a reply to the last message, after the previous attempt failed.
+    const retryReply = () => {
+        const history = messagesRef.current;
+        const last = history[history.length - 1];
+        if (isLoading || last?.role !== 'user' || typeof last.content !== 'string') return;
+        requestReply(history.slice(0, -1), history, last.content);
+    };
+
+    // `previous` is the thread before `trimmedMessage`; `history` ends with it.
+    const requestReply = async (previous: ChatMessage[], history: ChatMessage[], trimmedMessage: string) => {
         setIsLoading(true);
+        setReplyError(null);
+
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        let latestSnapshot: ChatMessage | null = null;
+
+        // Switching to another conversation aborts the request; its reply must
+        // not land in the thread that is now open.
+        const threadId = currentIdRef.current;
+        const finish = (message: ChatMessage | null) => {
+            if (message && currentIdRef.current === threadId) appendMessage(history, message);
+        };
 
         try {
-            const response = await gemini.generateChatResponse(messages, trimmedMessage);
-            const responseText = response.text?.trim();
-            if (!responseText) {
-                throw new Error("Received empty response from Gemini chat.");
+            let responseText = '';
+            let wantsSources = false;
+            // Also aborted on its own when the reply turns out to need web sources.
+            const streamController = new AbortController();
+            controller.signal.addEventListener('abort', () => streamController.abort(), { once: true });
+            for await (const text of gemini.streamChatResponse(previous, trimmedMessage, streamController.signal, tripContext)) {
+                if (groundingEnabled && requestsSources(text)) {
+                    wantsSources = true;
+                    streamController.abort();
+                    break;
+                }
+                responseText = text;
+                const snapshot = readChatResponse(text);
+                if (snapshot) {
+                    latestSnapshot = { role: 'model', ...snapshot };
+                    setStreamingMessage(latestSnapshot);
+                }
             }
-            const parsedResponse = JSON.parse(responseText);
-            
-            const { contentType, itineraryPayload, textPayload } = parsedResponse;
-
-            let finalContent: StructuredContent;
-            let finalContentType: ContentType;
 
-            if (contentType === 'itinerary' && itineraryPayload) {
-                finalContent = itineraryPayload;
-                finalContentType = 'itinerary';
+            let modelMessage: ChatMessage | null;
+            if (controller.signal.aborted) {
+                // Keep whatever arrived before the user pressed Stop.
+                modelMessage = latestSnapshot;
+            } else if (wantsSources) {
+                setStreamingMessage(null);
+                setIsSearching(true);
+                const result = await gemini.answerWithSources(previous, trimmedMessage, controller.signal, tripContext);
+                modelMessage = {
+                    role: 'model',
+                    content: result.text,
+                    contentType: 'text',
+                    groundingChunks: result.groundingChunks,
+                    groundingSupports: result.groundingSupports,
+                };
             } else {
-                finalContent = textPayload || "Sorry, I was unable to generate a response. Please try again.";
-                finalContentType = 'text';
+                modelMessage = { role: 'model', ...await gemini.parseChatResponse(previous, trimmedMessage, responseText, tripContext) };
             }
-
-            const modelMessage: ChatMessage = {
-                role: 'model',
-                content: finalContent,
-                contentType: finalContentType,
-            };
-            setMessages(prev => [...prev, modelMessage]);
+            finish(modelMessage);
         } catch (error) {
-            console.error("Failed to get response from Gemini:", error);
-            const errorMessage: ChatMessage = {
-                role: 'model',
-                content: 'Sorry, something went wrong. Please try again.',
-                contentType: 'text',
-            };
-            setMessages(prev => [...prev, errorMessage]);
+            if (controller.signal.aborted) {
+                finish(latestSnapshot);
+            } else {
+                console.error("Failed to get response from Gemini:", error);
+                // Shown under the thread but not saved, so a retry leaves no trace of it.
+                if (currentIdRef.current === threadId) setReplyError({ message: describeAIError(error, 'answer that'), canRetry: canRetry(error) });
+            }
         } finally {
+            abortControllerRef.current = null;
+            setStreamingMessage(null);
+            setIsSearching(false);
             setIsLoading(false);
         }
     };
 
     return (
         <div className="flex flex-col h-full bg-white dark:bg-slate-950">
-            <header className="p-4 border-b border-slate-200 dark:border-slate-800">
-                <h2 className="text-lg font-semibold">New chat</h2>
+            <header className="p-4 border-b border-slate-200 dark:border-slate-800 flex items-center justify-between gap-4">
+                <h2 className="text-lg font-semibold truncate">{title}</h2>
+                <label
+                    className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400 flex-shrink-0 cursor-pointer"
+                    title="Answer questions about hours, prices, rules and news from Google Search, with sources"
+                >
+                    <input type="checkbox" checked={groundingEnabled} onChange={toggleGrounding} className="accent-sky-500" />
+                    Web sources
+                </label>
             </header>
             
             <div className="flex-1 overflow-y-auto p-8 space-y-4">
@@ -473,13 +1307,31 @@ const ChatView = () => {
                         <p className="text-slate-600 dark:text-slate-400">Ask for a 5-day trip to Paris, or what to do in Tokyo.</p>
                     </div>
                 ) : (
-                    messages.map((msg, index) => <MessageBubble key={index} message={msg} />)
+                    messages.map((msg, index) => (
+                        <MessageBubble
+                            key={index}
+                            message={msg}
+                            onSaveItinerary={handleSaveItinerary}
+                            onUpdateItinerary={(itinerary) => replaceMessage(msg, { ...msg, content: itinerary })}
+                        />
+                    ))
+                )}
+                {streamingMessage && <MessageBubble message={streamingMessage} />}
+                {replyError && !isLoading && (
+                    <div className="flex justify-start">
+                        <div role="alert" className="max-w-2xl p-4 rounded-2xl rounded-bl-none bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-200">
+                            <p>{replyError.message}</p>
+                            {replyError.canRetry && (
+                                <button onClick={retryReply} className="mt-2 text-sm font-semibold hover:underline">Try again</button>
+                            )}
+                        </div>
+                    </div>
                 )}
-                {isLoading && (
+                {isLoading && !streamingMessage && (
                     <div className="flex justify-start">
                         <div className="flex items-center gap-3 max-w-2xl p-4 rounded-2xl bg-slate-100 dark:bg-slate-800 rounded-bl-none">
                             <BrainIcon className="w-6 h-6 animate-pulse text-sky-500" />
-                            <span className="text-slate-600 dark:text-slate-400">Mindtrip is thinking...</span>
+                            <span className="text-slate-600 dark:text-slate-400">{isSearching ? 'Searching the web...' : 'Mindtrip is thinking...'}</span>
                         </div>
                     </div>
                 )}
@@ -487,6 +1339,17 @@ const ChatView = () => {
             </div>
 
             <div className="p-4 border-t border-slate-200 dark:border-slate-800">
+                {tripContext && (
+                    <div className="flex items-center gap-2 mb-2 text-sm text-slate-600 dark:text-slate-400" title="Sent to TravelMind with every message in this chat">
+                        <LocationIcon className="w-4 h-4 flex-shrink-0" />
+                        <span className="truncate">Planning for {tripContext}</span>
+                        {messages.length === 0 && (
+                            <button onClick={() => setTripContext(undefined)} aria-label="Don't use these details" className="text-slate-400 hover:text-slate-700 dark:hover:text-slate-200">
+                                <CloseIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                )}
                 <div className="relative">
                      <textarea
                         ref={textareaRef}
@@ -502,14 +1365,24 @@ const ChatView = () => {
                         className="w-full bg-slate-100 dark:bg-slate-800 rounded-2xl py-3 pl-5 pr-14 resize-none focus:outline-none focus:ring-2 focus:ring-sky-500 max-h-40"
                         rows={1}
                     />
-                    <button 
-                        onClick={handleSend}
-                        disabled={isLoading || !inputMessage.trim()}
-                        className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-full bg-sky-500 text-white hover:bg-sky-600 disabled:bg-slate-300 dark:disabled:bg-slate-600 transition-colors"
-                        aria-label="Send message"
-                    >
-                       <SendIcon className="w-5 h-5" />
-                    </button>
+                    {isLoading ? (
+                        <button
+                            onClick={handleStop}
+                            className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-full bg-slate-700 text-white hover:bg-slate-800 dark:bg-slate-600 dark:hover:bg-slate-500 transition-colors"
+                            aria-label="Stop generating"
+                        >
+                            <StopIcon className="w-5 h-5" />
+                        </button>
+                    ) : (
+                        <button 
+                            onClick={handleSend}
+                            disabled={!inputMessage.trim()}
+                            className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-full bg-sky-500 text-white hover:bg-sky-600 disabled:bg-slate-300 dark:disabled:bg-slate-600 transition-colors"
+                            aria-label="Send message"
+                        >
+                           <SendIcon className="w-5 h-5" />
+                        </button>
+                    )}
                 </div>
                  <p className="text-xs text-center text-slate-400 mt-2">Mindtrip can make mistakes. Check important info.</p>
             </div>
@@ -0,0 +1,80 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Activity, Trip } from '../types';
+import * as tripStore from '../services/trips';
+import { ChevronLeftIcon } from './icons';
+
+/** Dropdown that appends an activity to a chosen day of a saved trip. */
+const AddToTripMenu: React.FC<{ activity: Activity }> = ({ activity }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [trips, setTrips] = useState<Trip[]>([]);
+    const [selectedTrip, setSelectedTrip] = useState<Trip | null>(null);
+    const [status, setStatus] = useState<string | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        tripStore.listTrips().then(setTrips).catch(error => console.error("Failed to load trips:", error));
+        const handleClickOutside = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const add = async (trip: Trip, dayIndex: number) => {
+        const label = `${trip.itinerary.destination || 'your trip'}, day ${dayIndex + 1}`;
+        try {
+            const updated = await tripStore.addActivityToDay(trip.id, dayIndex, activity);
+            if (!updated) throw new Error(`Trip ${trip.id} no longer has day ${dayIndex + 1}`);
+            setStatus(`Added to ${label}.`);
+            setIsOpen(false);
+        } catch (error) {
+            console.error("Failed to add activity to trip:", error);
+            setStatus(`Couldn't add it to ${label}.`);
+        }
+    };
+
+    const itemClassName = "w-full text-left px-3 py-2 rounded-lg text-sm hover:bg-slate-100 dark:hover:bg-slate-800 truncate";
+
+    return (
+        <div ref={menuRef} className="relative flex items-center gap-3">
+            <button
+                onClick={() => { setStatus(null); setSelectedTrip(null); setIsOpen(open => !open); }}
+                className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500"
+            >
+                Add to trip
+            </button>
+            {status && <span className="text-sm text-slate-500 dark:text-slate-400">{status}</span>}
+            {isOpen && (
+                <div className="absolute left-0 top-full mt-2 w-72 max-h-80 overflow-y-auto p-2 z-20 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl shadow-lg text-slate-900 dark:text-slate-200">
+                    {selectedTrip ? (
+                        <>
+                            <button onClick={() => setSelectedTrip(null)} className="flex items-center gap-1 px-3 pt-1 pb-1 text-xs font-semibold uppercase text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200">
+                                <ChevronLeftIcon className="w-3 h-3" />
+                                {selectedTrip.itinerary.destination || 'Untitled trip'}
+                            </button>
+                            {selectedTrip.itinerary.itinerary.length === 0 && <p className="px-3 py-2 text-sm text-slate-500 dark:text-slate-400">This trip has no days yet.</p>}
+                            {selectedTrip.itinerary.itinerary.map((day, index) => (
+                                <button key={index} onClick={() => add(selectedTrip, index)} className={itemClassName}>
+                                    Day {day.day}{day.title ? `: ${day.title}` : ''}
+                                </button>
+                            ))}
+                        </>
+                    ) : (
+                        <>
+                            <p className="px-3 pt-1 pb-1 text-xs font-semibold uppercase text-slate-500 dark:text-slate-400">Trips</p>
+                            {trips.length === 0 && <p className="px-3 py-2 text-sm text-slate-500 dark:text-slate-400">No saved trips yet.</p>}
+                            {trips.map(trip => (
+                                <button key={trip.id} onClick={() => setSelectedTrip(trip)} className={itemClassName}>
+                                    {trip.itinerary.destination || 'Untitled trip'}
+                                </button>
+                            ))}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AddToTripMenu;
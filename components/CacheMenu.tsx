@@ -0,0 +1,93 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CacheStats, clearCache, resetCacheStats, subscribeToCacheStats } from '../services/cache';
+import { MoreIcon } from './icons';
+
+/** The "more" menu in the sidebar, with cache hit counts and a way to clear the cache. */
+const CacheMenu: React.FC = () => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [stats, setStats] = useState<Record<string, CacheStats>>({});
+    const [status, setStatus] = useState<string | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => subscribeToCacheStats(setStats), []);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const clear = async () => {
+        try {
+            await clearCache();
+            setStatus('Cache cleared.');
+        } catch (error) {
+            console.error("Failed to clear cache:", error);
+            setStatus("Couldn't clear the cache.");
+        }
+    };
+
+    const names = Object.keys(stats).sort();
+
+    return (
+        <div ref={menuRef} className="relative">
+            <button
+                onClick={() => { setStatus(null); setIsOpen(open => !open); }}
+                aria-label="More"
+                className="text-slate-500 hover:text-slate-800 dark:hover:text-slate-200"
+            >
+                <MoreIcon />
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 bottom-full mb-2 w-80 p-4 space-y-3 z-20 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl shadow-lg text-slate-900 dark:text-slate-200">
+                    <p className="text-xs font-semibold uppercase text-slate-500 dark:text-slate-400">Cached lookups this session</p>
+                    {names.length === 0 ? (
+                        <p className="text-sm text-slate-500 dark:text-slate-400">No lookups yet.</p>
+                    ) : (
+                        <table className="w-full text-sm tabular-nums">
+                            <thead className="text-xs text-slate-500 dark:text-slate-400">
+                                <tr>
+                                    <th className="text-left font-medium">Lookup</th>
+                                    <th className="text-right font-medium">Hit</th>
+                                    <th className="text-right font-medium">Stale</th>
+                                    <th className="text-right font-medium">Miss</th>
+                                    <th className="text-right font-medium">Error</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {names.map(name => (
+                                    <tr key={name}>
+                                        <td className="py-0.5 truncate">{name}</td>
+                                        <td className="text-right">{stats[name].hits}</td>
+                                        <td className="text-right">{stats[name].staleHits}</td>
+                                        <td className="text-right">{stats[name].misses}</td>
+                                        <td className="text-right">{stats[name].errors}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={clear}
+                            className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500"
+                        >
+                            Clear cache
+                        </button>
+                        {names.length > 0 && (
+                            <button onClick={resetCacheStats} className="px-3 py-1.5 text-sm font-semibold text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-100">
+                                Reset counters
+                            </button>
+                        )}
+                    </div>
+                    {status && <p className="text-sm text-slate-500 dark:text-slate-400">{status}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CacheMenu;
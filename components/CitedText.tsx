@@ -0,0 +1,59 @@
+import React from 'react';
+import { GroundingChunk, GroundingSupport } from '@google/genai';
+import { groundingSources, splitCitedText } from '../services/citations';
+
+interface CitedTextProps {
+    text: string;
+    chunks?: GroundingChunk[];
+    supports?: GroundingSupport[];
+}
+
+/** A grounded answer with numbered citation markers and the sources they point to. */
+const CitedText: React.FC<CitedTextProps> = ({ text, chunks, supports }) => {
+    const sources = groundingSources(chunks);
+    const segments = splitCitedText(text, supports, chunks);
+
+    return (
+        <div>
+            <p className="whitespace-pre-wrap">
+                {segments.map((segment, index) => (
+                    <React.Fragment key={index}>
+                        {segment.text}
+                        {segment.citations.map(number => {
+                            const source = sources.find(s => s.number === number)!;
+                            return (
+                                <a
+                                    key={number}
+                                    href={source.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    title={source.title}
+                                    className="inline-flex items-center justify-center align-super text-[10px] font-semibold min-w-[1rem] h-4 px-1 mx-0.5 rounded bg-slate-200 dark:bg-slate-700 text-sky-700 dark:text-sky-300 hover:bg-sky-100 dark:hover:bg-sky-900 no-underline"
+                                >
+                                    {number}
+                                </a>
+                            );
+                        })}
+                    </React.Fragment>
+                ))}
+            </p>
+            {sources.length > 0 && (
+                <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-700">
+                    <p className="text-xs font-semibold uppercase text-slate-500 dark:text-slate-400 mb-1">Sources</p>
+                    <ol className="space-y-1 text-sm">
+                        {sources.map(source => (
+                            <li key={source.number} className="flex gap-2">
+                                <span className="text-slate-500 dark:text-slate-400">{source.number}.</span>
+                                <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-sky-600 dark:text-sky-400 hover:underline truncate">
+                                    {source.title}
+                                </a>
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CitedText;
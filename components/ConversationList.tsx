@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Conversation } from '../types';
+import { searchConversations } from '../services/conversations';
+import { ExploreIcon, PencilIcon, TrashIcon } from './icons';
+
+const formatTimestamp = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const isToday = date.toDateString() === new Date().toDateString();
+    return isToday
+        ? date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+        : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+interface ConversationListProps {
+    conversations: Conversation[];
+    activeId: string | null;
+    onSelect: (id: string) => void;
+    onNewChat: () => void;
+    onRename: (id: string, title: string) => void;
+    onDelete: (id: string) => void;
+}
+
+const ConversationList: React.FC<ConversationListProps> = ({ conversations, activeId, onSelect, onNewChat, onRename, onDelete }) => {
+    const [query, setQuery] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftTitle, setDraftTitle] = useState('');
+
+    const results = searchConversations(conversations, query);
+
+    const startRename = (conversation: Conversation) => {
+        setEditingId(conversation.id);
+        setDraftTitle(conversation.title);
+    };
+
+    const commitRename = () => {
+        if (editingId) onRename(editingId, draftTitle);
+        setEditingId(null);
+    };
+
+    return (
+        <aside className="w-80 flex-shrink-0 border-r border-slate-200 dark:border-slate-800 flex flex-col">
+            <div className="p-4 space-y-3 border-b border-slate-200 dark:border-slate-800">
+                <button
+                    onClick={onNewChat}
+                    className="w-full text-left bg-slate-100 hover:bg-slate-200 dark:bg-slate-800 dark:hover:bg-slate-700 transition-colors font-semibold p-3 rounded-lg"
+                >
+                    New chat
+                </button>
+                <div className="relative">
+                    <ExploreIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                    <input
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search chats"
+                        className="w-full bg-slate-100 dark:bg-slate-800 rounded-lg py-2 pl-9 pr-3 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+                    />
+                </div>
+            </div>
+            <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+                {results.length === 0 && (
+                    <li className="p-3 text-sm text-slate-500 dark:text-slate-400">
+                        {query ? 'No chats match your search.' : 'Your conversations will appear here.'}
+                    </li>
+                )}
+                {results.map(conversation => (
+                    <li key={conversation.id}>
+                        <div
+                            className={`group flex items-center gap-2 p-3 rounded-lg cursor-pointer ${
+                                conversation.id === activeId
+                                ? 'bg-slate-100 dark:bg-slate-800'
+                                : 'hover:bg-slate-100 dark:hover:bg-slate-800'
+                            }`}
+                            onClick={() => editingId !== conversation.id && onSelect(conversation.id)}
+                        >
+                            {editingId === conversation.id ? (
+                                <input
+                                    autoFocus
+                                    value={draftTitle}
+                                    onChange={(e) => setDraftTitle(e.target.value)}
+                                    onBlur={commitRename}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') commitRename();
+                                        if (e.key === 'Escape') setEditingId(null);
+                                    }}
+                                    className="flex-1 min-w-0 bg-white dark:bg-slate-900 rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+                                />
+                            ) : (
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-semibold truncate">{conversation.title}</p>
+                                    <p className="text-xs text-slate-500 dark:text-slate-400">{formatTimestamp(conversation.updatedAt)}</p>
+                                </div>
+                            )}
+                            {editingId !== conversation.id && (
+                                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); startRename(conversation); }}
+                                        className="p-1 text-slate-500 hover:text-slate-800 dark:hover:text-slate-200"
+                                        aria-label="Rename chat"
+                                    >
+                                        <PencilIcon className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            if (window.confirm(`Delete "${conversation.title}"?`)) onDelete(conversation.id);
+                                        }}
+                                        className="p-1 text-slate-500 hover:text-red-600"
+                                        aria-label="Delete chat"
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </aside>
+    );
+};
+
+export default ConversationList;
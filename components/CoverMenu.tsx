@@ -0,0 +1,79 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ContentCardData, Trip } from '../types';
+import { exploreData } from '../mockData';
+import * as tripStore from '../services/trips';
+import { cardCoverKey, setCardCover } from '../services/images';
+
+// The curated Explore cards. Nearby places and videos change from visit to
+// visit, so they are not offered here.
+const exploreCards: ContentCardData[] = exploreData.flatMap(carousel => carousel.cards);
+
+/** Dropdown that sets an image as the cover of a saved trip or an Explore card. */
+const CoverMenu: React.FC<{ imageUrl: string }> = ({ imageUrl }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [trips, setTrips] = useState<Trip[]>([]);
+    const [status, setStatus] = useState<string | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        tripStore.listTrips().then(setTrips).catch(error => console.error("Failed to load trips:", error));
+        const handleClickOutside = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const attach = async (label: string, save: () => Promise<unknown>) => {
+        try {
+            await save();
+            setStatus(`Cover set for ${label}.`);
+            setIsOpen(false);
+        } catch (error) {
+            console.error("Failed to set cover:", error);
+            setStatus(`Couldn't set the cover for ${label}.`);
+        }
+    };
+
+    const itemClassName = "w-full text-left px-3 py-2 rounded-lg text-sm hover:bg-slate-100 dark:hover:bg-slate-800 truncate";
+
+    return (
+        <div ref={menuRef} className="relative flex items-center gap-3">
+            <button
+                onClick={() => { setStatus(null); setIsOpen(open => !open); }}
+                className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500"
+            >
+                Use as cover
+            </button>
+            {status && <span className="text-sm text-slate-500 dark:text-slate-400">{status}</span>}
+            {isOpen && (
+                <div className="absolute left-0 top-full mt-2 w-72 max-h-80 overflow-y-auto p-2 z-20 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl shadow-lg text-slate-900 dark:text-slate-200">
+                    <p className="px-3 pt-1 pb-1 text-xs font-semibold uppercase text-slate-500 dark:text-slate-400">Trips</p>
+                    {trips.length === 0 && <p className="px-3 py-2 text-sm text-slate-500 dark:text-slate-400">No saved trips yet.</p>}
+                    {trips.map(trip => (
+                        <button
+                            key={trip.id}
+                            onClick={() => attach(trip.itinerary.destination, () => tripStore.setTripCover(trip.id, imageUrl))}
+                            className={itemClassName}
+                        >
+                            {trip.itinerary.destination || 'Untitled trip'}
+                        </button>
+                    ))}
+                    <p className="px-3 pt-3 pb-1 text-xs font-semibold uppercase text-slate-500 dark:text-slate-400">Explore cards</p>
+                    {exploreCards.map(card => (
+                        <button
+                            key={cardCoverKey(card)}
+                            onClick={() => attach(card.title, () => setCardCover(cardCoverKey(card), imageUrl))}
+                            className={itemClassName}
+                        >
+                            {card.title}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CoverMenu;
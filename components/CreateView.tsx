@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AspectRatio, StudioImage } from '../types';
+import * as imageStore from '../services/images';
+import { describeAIError } from '../services/aiErrors';
+import CoverMenu from './CoverMenu';
+import VideoStudio from './VideoStudio';
+import { ChevronRightIcon, CreateIcon, SparklesIcon, TrashIcon, WandIcon } from './icons';
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+
+const inputClassName = "w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-500";
+
+export type CreateTab = 'images' | 'videos';
+
+const CreateView: React.FC<{ initialTab?: CreateTab }> = ({ initialTab = 'images' }) => {
+    const [tab, setTab] = useState<CreateTab>(initialTab);
+    const [videoStartImage, setVideoStartImage] = useState<string | null>(null);
+    const [images, setImages] = useState<StudioImage[]>([]);
+    const [activeId, setActiveId] = useState<string | null>(null);
+    const [selectedStep, setSelectedStep] = useState(0);
+    const [prompt, setPrompt] = useState('');
+    const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+    const [editPrompt, setEditPrompt] = useState('');
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        imageStore.listImages().then(setImages).catch(loadError => console.error("Failed to load images:", loadError));
+    }, []);
+
+    const active = images.find(image => image.id === activeId);
+
+    const open = (image: StudioImage, step = image.steps.length - 1) => {
+        setActiveId(image.id);
+        setSelectedStep(step);
+        setEditPrompt('');
+    };
+
+    const upsert = (image: StudioImage) => {
+        setImages(prev => [image, ...prev.filter(i => i.id !== image.id)]);
+    };
+
+    const generate = async () => {
+        if (!prompt.trim() || isGenerating) return;
+        setIsGenerating(true);
+        setError(null);
+        try {
+            const image = await imageStore.generateStudioImage(prompt.trim(), aspectRatio);
+            upsert(image);
+            open(image);
+            setPrompt('');
+        } catch (generateError) {
+            console.error("Failed to generate image:", generateError);
+            setError(describeAIError(generateError, 'generate that image'));
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const upload = async (file: File | undefined) => {
+        if (!file) return;
+        setError(null);
+        try {
+            const image = await imageStore.addUploadedImage(file.name.replace(/\.[^.]+$/, ''), await imageStore.readFileAsDataUrl(file));
+            upsert(image);
+            open(image);
+        } catch (uploadError) {
+            console.error("Failed to add image:", uploadError);
+            setError("Couldn't read that file.");
+        } finally {
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        }
+    };
+
+    const applyEdit = async () => {
+        if (!active || !editPrompt.trim() || isEditing) return;
+        setIsEditing(true);
+        setError(null);
+        try {
+            const updated = await imageStore.applyEdit(active, selectedStep, editPrompt.trim());
+            upsert(updated);
+            open(updated);
+        } catch (editError) {
+            console.error("Failed to edit image:", editError);
+            setError(describeAIError(editError, 'apply that edit'));
+        } finally {
+            setIsEditing(false);
+        }
+    };
+
+    const remove = async (image: StudioImage) => {
+        if (!window.confirm(`Delete "${image.title}" and all its versions?`)) return;
+        await imageStore.deleteImage(image.id);
+        setImages(prev => prev.filter(i => i.id !== image.id));
+        if (image.id === activeId) setActiveId(null);
+    };
+
+    useEffect(() => {
+        setTab(initialTab);
+    }, [initialTab]);
+
+    const animate = (imageUrl: string) => {
+        setVideoStartImage(imageUrl);
+        setTab('videos');
+    };
+
+    const step = active?.steps[selectedStep];
+
+    return (
+        <div className="p-8 max-w-6xl space-y-8">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <h1 className="text-3xl font-bold">Create</h1>
+                <div className="flex items-center gap-1 p-1 rounded-full bg-slate-100 dark:bg-slate-800">
+                    {(['images', 'videos'] as CreateTab[]).map(t => (
+                        <button
+                            key={t}
+                            onClick={() => setTab(t)}
+                            className={`px-4 py-1.5 rounded-full text-sm font-semibold capitalize ${
+                                t === tab ? 'bg-white dark:bg-slate-950 shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200'
+                            }`}
+                        >
+                            {t}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {tab === 'videos' ? (
+                <VideoStudio startImage={videoStartImage} />
+            ) : (
+                <>
+                <section className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl p-5 space-y-4">
+                    <textarea
+                        value={prompt}
+                        onChange={(e) => setPrompt(e.target.value)}
+                        placeholder="Describe a travel scene, e.g. 'A quiet canal in Melaka at dusk, lanterns reflecting on the water'"
+                        rows={3}
+                        className={`${inputClassName} resize-none`}
+                    />
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                        <div className="flex items-center gap-2">
+                            {ASPECT_RATIOS.map(ratio => (
+                                <button
+                                    key={ratio}
+                                    onClick={() => setAspectRatio(ratio)}
+                                    className={`px-3 py-1 rounded-full text-sm font-semibold border ${
+                                        ratio === aspectRatio
+                                        ? 'bg-slate-900 text-white border-slate-900 dark:bg-slate-100 dark:text-slate-900 dark:border-slate-100'
+                                        : 'border-slate-300 dark:border-slate-700 hover:border-slate-400 dark:hover:border-slate-500'
+                                    }`}
+                                >
+                                    {ratio}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={(e) => upload(e.target.files?.[0])} />
+                            <button
+                                onClick={() => fileInputRef.current?.click()}
+                                className="px-4 py-2 rounded-lg text-sm font-semibold bg-slate-100 hover:bg-slate-200 dark:bg-slate-800 dark:hover:bg-slate-700"
+                            >
+                                Upload a photo
+                            </button>
+                            <button
+                                onClick={generate}
+                                disabled={!prompt.trim() || isGenerating}
+                                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-sky-500 text-white hover:bg-sky-600 disabled:opacity-50"
+                            >
+                                <SparklesIcon className="w-4 h-4" />
+                                {isGenerating ? 'Generating…' : 'Generate'}
+                            </button>
+                        </div>
+                    </div>
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                </section>
+
+                {active && step && (
+                    <section className="space-y-4">
+                        <div className="flex flex-wrap items-center justify-between gap-3">
+                            <h2 className="text-xl font-semibold truncate">{active.title}</h2>
+                            <div className="flex items-center gap-2">
+                                <CoverMenu imageUrl={step.imageUrl} />
+                                <button
+                                    onClick={() => animate(step.imageUrl)}
+                                    className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500"
+                                >
+                                    Animate
+                                </button>
+                                <button
+                                    onClick={() => imageStore.downloadImage(step.imageUrl, active.title).catch(downloadError => console.error("Failed to download image:", downloadError))}
+                                    className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500"
+                                >
+                                    Download
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="bg-slate-100 dark:bg-slate-900 rounded-2xl p-4 flex justify-center">
+                            <img src={step.imageUrl} alt={step.prompt || active.title} className={`max-h-[28rem] rounded-lg object-contain ${isEditing ? 'opacity-50 animate-pulse' : ''}`} />
+                        </div>
+
+                        <form className="flex gap-2" onSubmit={(e) => { e.preventDefault(); applyEdit(); }}>
+                            <input
+                                value={editPrompt}
+                                onChange={(e) => setEditPrompt(e.target.value)}
+                                placeholder={selectedStep === 0 ? "Describe an edit, e.g. 'add a sunset sky'" : `Edit version ${selectedStep + 1}, e.g. 'remove the people'`}
+                                className={inputClassName}
+                            />
+                            <button
+                                type="submit"
+                                disabled={!editPrompt.trim() || isEditing}
+                                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-sky-500 text-white hover:bg-sky-600 disabled:opacity-50 flex-shrink-0"
+                            >
+                                <WandIcon className="w-4 h-4" />
+                                {isEditing ? 'Editing…' : 'Apply edit'}
+                            </button>
+                        </form>
+
+                        <div>
+                            <p className="text-xs font-semibold uppercase text-slate-500 dark:text-slate-400 mb-2">History</p>
+                            <div className="flex items-start gap-2 overflow-x-auto pb-2">
+                                {active.steps.map((s, index) => (
+                                    <React.Fragment key={s.createdAt}>
+                                        {index > 0 && <ChevronRightIcon className="w-4 h-4 mt-12 flex-shrink-0 text-slate-400" />}
+                                        <button onClick={() => setSelectedStep(index)} className="w-40 flex-shrink-0 text-left">
+                                            <img
+                                                src={s.imageUrl}
+                                                alt={s.prompt || 'Original'}
+                                                className={`w-40 h-28 object-cover rounded-lg ${index === selectedStep ? 'ring-4 ring-sky-500' : ''}`}
+                                            />
+                                            <p className="text-xs font-semibold mt-1">{index === 0 ? 'Original' : `Edit ${index}`}</p>
+                                            {s.prompt && <p className="text-xs text-slate-500 dark:text-slate-400 line-clamp-2">{s.prompt}</p>}
+                                        </button>
+                                    </React.Fragment>
+                                ))}
+                            </div>
+                        </div>
+                    </section>
+                )}
+
+                <section>
+                    <h2 className="text-xl font-semibold mb-4">Gallery</h2>
+                    {images.length === 0 ? (
+                        <div className="text-center py-16 text-slate-500 dark:text-slate-400">
+                            <CreateIcon className="w-10 h-10 mx-auto mb-3" />
+                            <p className="font-semibold text-slate-700 dark:text-slate-300">No images yet</p>
+                            <p className="text-sm">Generated and uploaded images are kept here.</p>
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                            {images.map(image => (
+                                <div key={image.id} className={`group relative rounded-xl overflow-hidden ${image.id === activeId ? 'ring-4 ring-sky-500' : ''}`}>
+                                    <button onClick={() => open(image)} className="block w-full">
+                                        <img src={imageStore.latestStep(image).imageUrl} alt={image.title} className="w-full h-40 object-cover" />
+                                        <div className="absolute inset-x-0 bottom-0 p-2 bg-gradient-to-t from-black/60 to-transparent text-white text-left">
+                                            <p className="text-sm font-semibold truncate">{image.title}</p>
+                                            {image.steps.length > 1 && <p className="text-xs">{image.steps.length - 1} edits</p>}
+                                        </div>
+                                    </button>
+                                    <button
+                                        onClick={() => remove(image)}
+                                        aria-label={`Delete ${image.title}`}
+                                        className="absolute top-2 right-2 p-1.5 rounded-full bg-black/50 text-white opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-red-600"
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </section>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CreateView;
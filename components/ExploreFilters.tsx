@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BudgetTier, TripCriteria } from '../types';
+import { BUDGET_LABELS, DEFAULT_CRITERIA, MAX_TRAVELERS, dateRangeLabel, hasCriteria, shareUrl, travelersLabel } from '../services/criteria';
+import LocationPicker from './LocationPicker';
+import { CloseIcon } from './icons';
+
+type Picker = 'where' | 'when' | 'travelers' | 'budget';
+
+const inputClassName = "w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-500";
+const panelClassName = "absolute left-0 top-full mt-2 w-80 p-4 z-20 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl shadow-lg text-slate-900 dark:text-slate-200";
+const stepperClassName = "w-8 h-8 rounded-full border border-slate-300 dark:border-slate-600 font-semibold hover:border-slate-400 dark:hover:border-slate-500 disabled:opacity-40";
+
+const Stepper: React.FC<{ label: string, hint: string, value: number, min: number, onChange: (value: number) => void }> = ({ label, hint, value, min, onChange }) => (
+    <div className="flex items-center justify-between">
+        <div>
+            <p className="font-semibold">{label}</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">{hint}</p>
+        </div>
+        <div className="flex items-center gap-3">
+            <button onClick={() => onChange(value - 1)} disabled={value <= min} aria-label={`Fewer ${label.toLowerCase()}`} className={stepperClassName}>−</button>
+            <span className="w-4 text-center tabular-nums">{value}</span>
+            <button onClick={() => onChange(value + 1)} disabled={value >= MAX_TRAVELERS} aria-label={`More ${label.toLowerCase()}`} className={stepperClassName}>+</button>
+        </div>
+    </div>
+);
+
+interface ExploreFiltersProps {
+    criteria: TripCriteria;
+    onChange: (criteria: TripCriteria) => void;
+}
+
+/** The Where / When / travelers / Budget bar at the top of Explore. */
+const ExploreFilters: React.FC<ExploreFiltersProps> = ({ criteria, onChange }) => {
+    const [openPicker, setOpenPicker] = useState<Picker | null>(null);
+    const [copied, setCopied] = useState(false);
+    const barRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!openPicker) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (barRef.current && !barRef.current.contains(e.target as Node)) setOpenPicker(null);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [openPicker]);
+
+    const update = (changes: Partial<TripCriteria>) => onChange({ ...criteria, ...changes });
+
+    const toggle = (picker: Picker) => setOpenPicker(open => open === picker ? null : picker);
+
+    const copyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(shareUrl(criteria));
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (error) {
+            console.error("Failed to copy link:", error);
+        }
+    };
+
+    const pillClassName = (picker: Picker, isSet: boolean) => `px-4 py-2 bg-white dark:bg-slate-900 border rounded-full text-sm font-semibold ${
+        openPicker === picker || isSet
+        ? 'border-slate-800 dark:border-slate-200'
+        : 'border-slate-300 dark:border-slate-700 hover:border-slate-400 dark:hover:border-slate-500'
+    }`;
+
+    const isTravelersSet = criteria.adults !== DEFAULT_CRITERIA.adults || criteria.children !== DEFAULT_CRITERIA.children;
+
+    return (
+        <div ref={barRef} className="flex flex-wrap items-center gap-2 mb-8">
+            <div className="relative">
+                <button onClick={() => toggle('where')} className={pillClassName('where', !!criteria.destination)}>
+                    {criteria.destination?.name ?? 'Where'}
+                </button>
+                {openPicker === 'where' && (
+                    <div className={panelClassName}>
+                        <LocationPicker autoFocus current={criteria.destination} onPick={destination => { update({ destination }); setOpenPicker(null); }} />
+                    </div>
+                )}
+            </div>
+
+            <div className="relative">
+                <button onClick={() => toggle('when')} className={pillClassName('when', !!(criteria.startDate || criteria.endDate))}>
+                    {dateRangeLabel(criteria) ?? 'When'}
+                </button>
+                {openPicker === 'when' && (
+                    <div className={`${panelClassName} space-y-3`}>
+                        <label className="block text-sm text-slate-600 dark:text-slate-400">
+                            Start
+                            <input
+                                type="date"
+                                value={criteria.startDate ?? ''}
+                                onChange={(e) => {
+                                    const startDate = e.target.value || undefined;
+                                    update({ startDate, endDate: startDate && criteria.endDate && criteria.endDate < startDate ? undefined : criteria.endDate });
+                                }}
+                                className={`${inputClassName} mt-1`}
+                            />
+                        </label>
+                        <label className="block text-sm text-slate-600 dark:text-slate-400">
+                            End
+                            <input
+                                type="date"
+                                value={criteria.endDate ?? ''}
+                                min={criteria.startDate}
+                                onChange={(e) => update({ endDate: e.target.value || undefined })}
+                                className={`${inputClassName} mt-1`}
+                            />
+                        </label>
+                        {(criteria.startDate || criteria.endDate) && (
+                            <button onClick={() => update({ startDate: undefined, endDate: undefined })} className="text-sm font-semibold text-sky-600 hover:underline">
+                                Clear dates
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            <div className="relative">
+                <button onClick={() => toggle('travelers')} className={pillClassName('travelers', isTravelersSet)}>
+                    {travelersLabel(criteria)}
+                </button>
+                {openPicker === 'travelers' && (
+                    <div className={`${panelClassName} space-y-4`}>
+                        <Stepper label="Adults" hint="13 or older" value={criteria.adults} min={1} onChange={adults => update({ adults })} />
+                        <Stepper label="Children" hint="Under 13" value={criteria.children} min={0} onChange={children => update({ children })} />
+                    </div>
+                )}
+            </div>
+
+            <div className="relative">
+                <button onClick={() => toggle('budget')} className={pillClassName('budget', !!criteria.budget)}>
+                    {criteria.budget ? BUDGET_LABELS[criteria.budget] : 'Budget'}
+                </button>
+                {openPicker === 'budget' && (
+                    <div className={`${panelClassName} w-56 space-y-1`}>
+                        {([undefined, 'budget', 'moderate', 'luxury'] as (BudgetTier | undefined)[]).map(tier => (
+                            <button
+                                key={tier ?? 'any'}
+                                onClick={() => { update({ budget: tier }); setOpenPicker(null); }}
+                                className={`w-full text-left px-3 py-2 rounded-lg text-sm hover:bg-slate-100 dark:hover:bg-slate-800 ${criteria.budget === tier ? 'font-semibold text-sky-600' : ''}`}
+                            >
+                                {tier ? BUDGET_LABELS[tier] : 'Any budget'}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {hasCriteria(criteria) && (
+                <>
+                    <button onClick={copyLink} className="px-3 py-2 text-sm font-semibold text-sky-600 hover:underline">
+                        {copied ? 'Link copied' : 'Copy link'}
+                    </button>
+                    <button onClick={() => onChange(DEFAULT_CRITERIA)} aria-label="Clear filters" className="p-2 text-slate-400 hover:text-slate-700 dark:hover:text-slate-200">
+                        <CloseIcon className="w-4 h-4" />
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ExploreFilters;
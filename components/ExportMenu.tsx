@@ -0,0 +1,82 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Itinerary } from '../types';
+import { downloadFile, itineraryToICS, itineraryToMarkdown, printItinerary, slugify } from '../services/export';
+
+const todayAsInputValue = () => {
+    const now = new Date();
+    return new Date(now.getTime() - now.getTimezoneOffset() * 60_000).toISOString().slice(0, 10);
+};
+
+const ExportMenu: React.FC<{ itinerary: Itinerary }> = ({ itinerary }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [startDate, setStartDate] = useState(todayAsInputValue);
+    const [error, setError] = useState<string | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const filename = slugify(itinerary.destination);
+
+    const exportCalendar = () => {
+        const [year, month, day] = startDate.split('-').map(Number);
+        if (!year || !month || !day) {
+            setError("Pick a start date for the trip.");
+            return;
+        }
+        downloadFile(`${filename}.ics`, itineraryToICS(itinerary, new Date(year, month - 1, day)), 'text/calendar;charset=utf-8');
+        setIsOpen(false);
+    };
+
+    const exportMarkdown = () => {
+        downloadFile(`${filename}.md`, itineraryToMarkdown(itinerary), 'text/markdown;charset=utf-8');
+        setIsOpen(false);
+    };
+
+    const exportPrint = () => {
+        try {
+            printItinerary(itinerary);
+            setIsOpen(false);
+        } catch (e) {
+            setError("Allow pop-ups for this site to print the itinerary.");
+        }
+    };
+
+    const itemClassName = "w-full text-left px-3 py-2 rounded-lg text-sm hover:bg-slate-100 dark:hover:bg-slate-800";
+
+    return (
+        <div ref={menuRef} className="relative">
+            <button
+                onClick={() => { setError(null); setIsOpen(open => !open); }}
+                className="px-3 py-1 border border-slate-300 dark:border-slate-600 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500"
+            >
+                Export
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-64 p-2 z-20 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl shadow-lg text-slate-900 dark:text-slate-200">
+                    <div className="px-3 py-2">
+                        <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-1">Trip starts on</label>
+                        <input
+                            type="date"
+                            value={startDate}
+                            onChange={(e) => setStartDate(e.target.value)}
+                            className="w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+                        />
+                    </div>
+                    <button onClick={exportCalendar} className={itemClassName}>Calendar (.ics)</button>
+                    <button onClick={exportMarkdown} className={itemClassName}>Markdown (.md)</button>
+                    <button onClick={exportPrint} className={itemClassName}>Print / Save as PDF</button>
+                    {error && <p className="px-3 py-1 text-xs text-red-600">{error}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExportMenu;
@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LiveServerMessage } from '@google/genai';
+import { ChatMessage, Conversation, TranscriptionEntry } from '../types';
+import * as gemini from '../services/gemini';
+import * as conversationStore from '../services/conversations';
+import { createPlaybackQueue, MicrophoneCapture, PlaybackQueue, startMicrophone } from '../services/audio';
+import { LiveSessionHandle } from '../services/providers/types';
+import { LiveIcon, StopIcon } from './icons';
+
+type ConnectionStatus = 'idle' | 'connecting' | 'live' | 'closed' | 'error';
+
+// Transcriptions arrive a few words at a time; an entry stays open for more
+// text until its turn completes or is interrupted.
+interface LiveEntry extends TranscriptionEntry {
+    done?: boolean;
+}
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+    idle: 'Tap the microphone and start talking.',
+    connecting: 'Connecting…',
+    live: 'Listening. Talk any time, even while TravelMind is speaking.',
+    closed: 'Conversation ended.',
+    error: 'Voice mode stopped.',
+};
+
+function describeStartError(error: unknown): string {
+    if (error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'SecurityError')) {
+        return 'Microphone access was blocked. Allow it in your browser settings to use voice mode.';
+    }
+    if (error instanceof DOMException && error.name === 'NotFoundError') {
+        return 'No microphone was found.';
+    }
+    return error instanceof Error && error.message ? error.message : 'Could not start voice mode.';
+}
+
+interface LiveAssistantViewProps {
+    onTranscriptSaved: (conversation: Conversation) => void;
+}
+
+const LiveAssistantView: React.FC<LiveAssistantViewProps> = ({ onTranscriptSaved }) => {
+    const [status, setStatus] = useState<ConnectionStatus>('idle');
+    const [error, setError] = useState<string | null>(null);
+    const [transcript, setTranscript] = useState<LiveEntry[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const sessionRef = useRef<LiveSessionHandle | null>(null);
+    const microphoneRef = useRef<MicrophoneCapture | null>(null);
+    const playbackRef = useRef<PlaybackQueue | null>(null);
+    const attemptRef = useRef(0);
+    const transcriptEndRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [transcript]);
+
+    // Releases the microphone, audio output and connection. Clearing the
+    // session ref first makes the onclose that follows a no-op, and bumping
+    // the attempt cancels a start that is still waiting on the mic or network.
+    const teardown = () => {
+        attemptRef.current++;
+        const session = sessionRef.current;
+        sessionRef.current = null;
+        microphoneRef.current?.stop();
+        microphoneRef.current = null;
+        playbackRef.current?.close();
+        playbackRef.current = null;
+        session?.close();
+    };
+
+    useEffect(() => teardown, []);
+
+    const appendTranscript = (speaker: TranscriptionEntry['speaker'], text: string) => {
+        setTranscript(entries => {
+            const last = entries[entries.length - 1];
+            if (last && last.speaker === speaker && !last.done) {
+                return [...entries.slice(0, -1), { ...last, text: last.text + text }];
+            }
+            return [...entries, { speaker, text }];
+        });
+    };
+
+    const closeOpenEntries = () => {
+        setTranscript(entries => entries.some(e => !e.done) ? entries.map(e => e.done ? e : { ...e, done: true }) : entries);
+    };
+
+    const handleMessage = (message: LiveServerMessage) => {
+        const content = message.serverContent;
+        if (!content) return;
+
+        if (content.inputTranscription?.text) appendTranscript('user', content.inputTranscription.text);
+        if (content.outputTranscription?.text) appendTranscript('model', content.outputTranscription.text);
+
+        for (const part of content.modelTurn?.parts ?? []) {
+            if (part.inlineData?.data) playbackRef.current?.enqueue(part.inlineData.data);
+        }
+
+        // The user talked over the model: drop the rest of its queued audio.
+        if (content.interrupted) {
+            playbackRef.current?.interrupt();
+            closeOpenEntries();
+        }
+        if (content.turnComplete) closeOpenEntries();
+    };
+
+    const start = async () => {
+        setError(null);
+        setTranscript([]);
+        setStatus('connecting');
+        const attempt = ++attemptRef.current;
+        try {
+            // Ask for the microphone first so a denied permission never opens a connection.
+            const microphone = await startMicrophone(blob => sessionRef.current?.sendRealtimeInput({ media: blob }));
+            if (attempt !== attemptRef.current) {
+                microphone.stop();
+                return;
+            }
+            microphoneRef.current = microphone;
+            playbackRef.current = createPlaybackQueue();
+            const session = await gemini.startLiveSession({
+                onopen: () => setStatus('live'),
+                onmessage: handleMessage,
+                onerror: (e: ErrorEvent) => {
+                    console.error("Live session error:", e);
+                    setError(e.message || 'The voice connection failed.');
+                    setStatus('error');
+                    teardown();
+                },
+                onclose: (e: CloseEvent) => {
+                    if (!sessionRef.current) return;
+                    sessionRef.current = null;
+                    teardown();
+                    closeOpenEntries();
+                    if (e.code !== 1000) {
+                        setError(e.reason || 'The voice connection closed unexpectedly.');
+                        setStatus('error');
+                    } else {
+                        setStatus('closed');
+                    }
+                },
+            });
+            // Stopped, or navigated away, while the connection was opening.
+            if (attempt !== attemptRef.current) {
+                session.close();
+                return;
+            }
+            sessionRef.current = session;
+        } catch (startError) {
+            if (attempt !== attemptRef.current) return;
+            console.error("Failed to start live session:", startError);
+            teardown();
+            setError(describeStartError(startError));
+            setStatus('error');
+        }
+    };
+
+    const stop = () => {
+        teardown();
+        closeOpenEntries();
+        setStatus('closed');
+    };
+
+    const saveTranscript = async () => {
+        const messages: ChatMessage[] = transcript
+            .filter(entry => entry.text.trim())
+            .map(entry => ({ role: entry.speaker, content: entry.text.trim(), contentType: 'text' }));
+        if (messages.length === 0) return;
+        setIsSaving(true);
+        try {
+            onTranscriptSaved(await conversationStore.saveMessages(null, messages));
+        } catch (saveError) {
+            console.error("Failed to save transcript:", saveError);
+            setError('Could not save the transcript. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const isActive = status === 'connecting' || status === 'live';
+    const canSave = !isActive && transcript.some(entry => entry.text.trim());
+
+    return (
+        <div className="flex flex-col h-full bg-white dark:bg-slate-950">
+            <header className="p-4 border-b border-slate-200 dark:border-slate-800 flex items-center justify-between">
+                <h2 className="text-lg font-semibold">Voice</h2>
+                {canSave && (
+                    <button
+                        onClick={saveTranscript}
+                        disabled={isSaving}
+                        className="text-sm font-semibold px-3 py-1.5 rounded-lg bg-slate-100 hover:bg-slate-200 dark:bg-slate-800 dark:hover:bg-slate-700 disabled:opacity-50"
+                    >
+                        {isSaving ? 'Saving…' : 'Save to Chats'}
+                    </button>
+                )}
+            </header>
+
+            <div className="flex-1 overflow-y-auto p-8 space-y-4">
+                {transcript.length === 0 && (
+                    <p className="text-center text-slate-500 dark:text-slate-400 pt-16">
+                        Ask about destinations, plans or anything travel. Your conversation will be transcribed here.
+                    </p>
+                )}
+                {transcript.map((entry, index) => {
+                    const isUser = entry.speaker === 'user';
+                    return (
+                        <div key={index} className={`flex w-full ${isUser ? 'justify-end' : 'justify-start'}`}>
+                            <p className={`max-w-2xl p-4 rounded-2xl whitespace-pre-wrap ${isUser ? 'bg-sky-500 text-white rounded-br-none' : 'bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-slate-200 rounded-bl-none'} ${entry.done ? '' : 'opacity-80'}`}>
+                                {entry.text}
+                            </p>
+                        </div>
+                    );
+                })}
+                <div ref={transcriptEndRef} />
+            </div>
+
+            <div className="p-6 border-t border-slate-200 dark:border-slate-800 flex flex-col items-center gap-3">
+                <button
+                    onClick={isActive ? stop : start}
+                    aria-label={isActive ? 'End voice conversation' : 'Start voice conversation'}
+                    className={`w-16 h-16 rounded-full flex items-center justify-center text-white transition-colors ${
+                        isActive ? 'bg-red-500 hover:bg-red-600' : 'bg-sky-500 hover:bg-sky-600'
+                    } ${status === 'live' ? 'ring-4 ring-sky-200 dark:ring-sky-900 animate-pulse' : ''}`}
+                >
+                    {isActive ? <StopIcon className="w-7 h-7" /> : <LiveIcon className="w-7 h-7" />}
+                </button>
+                <p className="text-sm text-slate-500 dark:text-slate-400">{STATUS_LABELS[status]}</p>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default LiveAssistantView;
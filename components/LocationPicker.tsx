@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Destination } from '../types';
+import { searchDestinations } from '../services/lookups';
+import { loadRecentLocations, locationDetails, rememberLocation } from '../services/locations';
+import { describeAIError } from '../services/aiErrors';
+import { ExploreIcon, LocationIcon } from './icons';
+
+const inputClassName = "w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-500";
+const optionClassName = "w-full flex items-start gap-2 text-left px-2 py-2 rounded-lg text-sm hover:bg-slate-100 dark:hover:bg-slate-800";
+
+interface LocationPickerProps {
+    current?: Destination;
+    /** Called with undefined when the user goes back to their device location. */
+    onPick: (destination: Destination | undefined) => void;
+    autoFocus?: boolean;
+}
+
+const DestinationOption: React.FC<{ destination: Destination, onPick: () => void }> = ({ destination, onPick }) => {
+    const details = locationDetails(destination);
+    return (
+        <button onClick={onPick} className={optionClassName}>
+            <LocationIcon className="w-4 h-4 mt-0.5 flex-shrink-0 text-slate-400" />
+            <span className="min-w-0">
+                <span className="block truncate">{destination.name}</span>
+                {details && details !== destination.name && <span className="block text-xs text-slate-500 dark:text-slate-400 truncate">{details}</span>}
+            </span>
+        </button>
+    );
+};
+
+/** Place search with recent picks, and a way back to the device location. */
+const LocationPicker: React.FC<LocationPickerProps> = ({ current, onPick, autoFocus = false }) => {
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<Destination[]>([]);
+    const [recents] = useState(loadRecentLocations);
+    const [isSearching, setIsSearching] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const search = async () => {
+        if (!query.trim() || isSearching) return;
+        setIsSearching(true);
+        setError(null);
+        try {
+            const found = await searchDestinations(query);
+            setResults(found);
+            if (found.length === 0) setError('No places matched that search.');
+        } catch (searchError) {
+            console.error("Failed to search destinations:", searchError);
+            setError(describeAIError(searchError, 'search places'));
+        } finally {
+            setIsSearching(false);
+        }
+    };
+
+    const pick = (destination: Destination) => {
+        rememberLocation(destination);
+        onPick(destination);
+    };
+
+    const shownRecents = results.length === 0 ? recents : [];
+
+    return (
+        <div className="space-y-2">
+            <form className="flex gap-2" onSubmit={(e) => { e.preventDefault(); search(); }}>
+                <input autoFocus={autoFocus} value={query} onChange={(e) => setQuery(e.target.value)} placeholder="City, region or landmark" className={inputClassName} />
+                <button type="submit" disabled={!query.trim() || isSearching} className="px-3 rounded-lg text-sm font-semibold bg-sky-500 text-white hover:bg-sky-600 disabled:opacity-50">
+                    {isSearching ? '…' : 'Search'}
+                </button>
+            </form>
+            {error && <p className="text-sm text-slate-500 dark:text-slate-400">{error}</p>}
+            <ul>
+                {results.map(destination => (
+                    <li key={`${destination.name}-${destination.lat}-${destination.lng}`}>
+                        <DestinationOption destination={destination} onPick={() => pick(destination)} />
+                    </li>
+                ))}
+            </ul>
+            {shownRecents.length > 0 && (
+                <div>
+                    <p className="px-2 pt-1 text-xs font-semibold uppercase text-slate-500 dark:text-slate-400">Recent</p>
+                    <ul>
+                        {shownRecents.map(destination => (
+                            <li key={`${destination.name}-${destination.lat}-${destination.lng}`}>
+                                <DestinationOption destination={destination} onPick={() => pick(destination)} />
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {current && 'geolocation' in navigator && (
+                <button onClick={() => onPick(undefined)} className="flex items-center gap-2 px-2 py-1 text-sm font-semibold text-sky-600 hover:underline">
+                    <ExploreIcon className="w-4 h-4" />
+                    Use my current location
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default LocationPicker;
@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import { fitViewport, getConfiguredTileSource, isValidLatLng, LatLng, TileSource, toScreen, visibleTiles } from '../services/map';
+
+export interface MapPoint extends LatLng {
+    label: string;
+}
+
+interface MapPanelProps {
+    /** Entries without coordinates may be null; they are skipped but keep their index. */
+    points: (MapPoint | null)[];
+    selectedIndex?: number | null;
+    onSelect?: (index: number) => void;
+    showRoute?: boolean;
+    tileSource?: TileSource | null;
+    className?: string;
+}
+
+const WIDTH = 800;
+const HEIGHT = 320;
+const GRID_STEP = 64;
+const configuredTileSource = getConfiguredTileSource();
+
+const MapPanel: React.FC<MapPanelProps> = ({ points, selectedIndex = null, onSelect, showRoute = true, tileSource = configuredTileSource, className = '' }) => {
+    // Markers keep the index of the point they came from so selection lines up
+    // with the caller's list even when some entries have no coordinates.
+    const markers = useMemo(
+        () => points.flatMap((point, index) => point && isValidLatLng(point) ? [{ point, index }] : []),
+        [points]
+    );
+    const viewport = useMemo(
+        () => fitViewport(markers.map(m => m.point), WIDTH, HEIGHT, 40, tileSource?.maxZoom),
+        [markers, tileSource]
+    );
+
+    if (markers.length === 0) {
+        return (
+            <div className={`flex items-center justify-center h-40 rounded-2xl bg-slate-100 dark:bg-slate-800 text-sm text-slate-500 dark:text-slate-400 ${className}`}>
+                No locations to show on the map.
+            </div>
+        );
+    }
+
+    const positioned = markers.map(m => ({ ...m, ...toScreen(m.point, viewport) }));
+    const tiles = tileSource ? visibleTiles(viewport, tileSource) : [];
+    const gridOffsetX = -((viewport.center.x - WIDTH / 2) % GRID_STEP);
+    const gridOffsetY = -((viewport.center.y - HEIGHT / 2) % GRID_STEP);
+
+    return (
+        <div className={`relative rounded-2xl overflow-hidden border border-slate-200 dark:border-slate-700 ${className}`}>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto block bg-slate-50 dark:bg-slate-900" role="img" aria-label="Map">
+                {tiles.length > 0 ? (
+                    tiles.map(tile => <image key={tile.key} href={tile.url} x={tile.x} y={tile.y} width={256} height={256} />)
+                ) : (
+                    <g className="text-slate-200 dark:text-slate-800" stroke="currentColor" strokeWidth={1}>
+                        {Array.from({ length: Math.ceil(WIDTH / GRID_STEP) + 1 }).map((_, i) => (
+                            <line key={`v${i}`} x1={gridOffsetX + i * GRID_STEP} y1={0} x2={gridOffsetX + i * GRID_STEP} y2={HEIGHT} />
+                        ))}
+                        {Array.from({ length: Math.ceil(HEIGHT / GRID_STEP) + 1 }).map((_, i) => (
+                            <line key={`h${i}`} x1={0} y1={gridOffsetY + i * GRID_STEP} x2={WIDTH} y2={gridOffsetY + i * GRID_STEP} />
+                        ))}
+                    </g>
+                )}
+                {showRoute && positioned.length > 1 && (
+                    <polyline
+                        points={positioned.map(p => `${p.x},${p.y}`).join(' ')}
+                        fill="none"
+                        stroke="#0ea5e9"
+                        strokeWidth={3}
+                        strokeDasharray="8 6"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                    />
+                )}
+                {positioned.map(({ x, y, index, point }, order) => {
+                    const isSelected = index === selectedIndex;
+                    return (
+                        <g
+                            key={index}
+                            transform={`translate(${x}, ${y})`}
+                            onClick={() => onSelect?.(index)}
+                            className={onSelect ? 'cursor-pointer' : ''}
+                        >
+                            <title>{point.label}</title>
+                            <circle r={isSelected ? 16 : 12} fill={isSelected ? '#0369a1' : '#0ea5e9'} stroke="white" strokeWidth={3} />
+                            <text textAnchor="middle" dy="0.35em" fill="white" fontSize={isSelected ? 13 : 11} fontWeight={700}>{order + 1}</text>
+                            {isSelected && (
+                                <text y={-24} textAnchor="middle" fontSize={13} fontWeight={600} className="fill-slate-800 dark:fill-slate-100" stroke="white" strokeWidth={3} paintOrder="stroke">
+                                    {point.label}
+                                </text>
+                            )}
+                        </g>
+                    );
+                })}
+            </svg>
+            {tileSource?.attribution && (
+                <span className="absolute bottom-1 right-2 text-[10px] text-slate-500 bg-white/70 px-1 rounded">{tileSource.attribution}</span>
+            )}
+        </div>
+    );
+};
+
+export default MapPanel;
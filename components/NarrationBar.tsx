@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import * as speech from '../services/speech';
+import { formatTimestamp } from '../services/vlogs';
+import { CloseIcon, DownloadIcon, PauseIcon, PlayIcon, SoundIcon } from './icons';
+
+/** Player for whatever is being read aloud, docked at the bottom of the app. */
+const NarrationBar: React.FC = () => {
+    const [narration, setNarration] = useState<speech.Narration | null>(null);
+
+    useEffect(() => speech.subscribeToNarration(setNarration), []);
+
+    if (!narration) return null;
+
+    const isLoading = narration.status === 'loading';
+    const isGenerating = narration.chunksLoaded < narration.chunkCount;
+    const buttonClassName = "p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40";
+
+    return (
+        <div role="region" aria-label="Read aloud" className="fixed bottom-6 left-1/2 -translate-x-1/2 z-30 w-[32rem] max-w-[calc(100vw-3rem)] p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl shadow-lg">
+            <div className="flex items-center gap-2">
+                <SoundIcon className="w-5 h-5 text-sky-500 flex-shrink-0" />
+                <p className="flex-1 min-w-0 text-sm font-semibold truncate">{narration.title}</p>
+                <button
+                    onClick={speech.downloadNarration}
+                    disabled={!speech.canDownloadNarration(narration)}
+                    aria-label="Download as WAV"
+                    title={isGenerating ? 'Available once the whole narration is ready' : 'Download as WAV'}
+                    className={buttonClassName}
+                >
+                    <DownloadIcon className="w-4 h-4" />
+                </button>
+                <button onClick={speech.stopNarration} aria-label="Stop reading" className={buttonClassName}>
+                    <CloseIcon className="w-4 h-4" />
+                </button>
+            </div>
+            {narration.status === 'error' && !narration.chunksLoaded ? (
+                <p className="text-sm text-red-600 mt-1">{narration.error}</p>
+            ) : (
+                <div className="flex items-center gap-2 mt-1">
+                    <button
+                        onClick={speech.togglePause}
+                        disabled={isLoading}
+                        aria-label={narration.status === 'playing' ? 'Pause' : 'Play'}
+                        className={buttonClassName}
+                    >
+                        {narration.status === 'playing' ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+                    </button>
+                    <span className="text-xs tabular-nums text-slate-500 dark:text-slate-400 w-10 text-right">{formatTimestamp(narration.position)}</span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={narration.duration || 1}
+                        step={0.1}
+                        value={narration.position}
+                        disabled={isLoading}
+                        onChange={(e) => speech.seek(Number(e.target.value))}
+                        aria-label="Seek"
+                        className="flex-1 accent-sky-500"
+                    />
+                    <span className="text-xs tabular-nums text-slate-500 dark:text-slate-400 w-10">{formatTimestamp(narration.duration)}</span>
+                </div>
+            )}
+            {isLoading && <p className="text-xs text-sky-600 animate-pulse mt-1">Preparing audio…</p>}
+            {!isLoading && isGenerating && (
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Preparing part {narration.chunksLoaded + 1} of {narration.chunkCount}…</p>
+            )}
+            {narration.error && narration.chunksLoaded > 0 && <p className="text-xs text-red-600 mt-1">{narration.error}</p>}
+        </div>
+    );
+};
+
+export default NarrationBar;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { NewsArticle } from '../types';
+import { CloseIcon } from './icons';
+
+interface NewsArticleCardProps {
+    article: NewsArticle;
+    isNew?: boolean;
+    isUnread?: boolean;
+    onOpen?: () => void;
+    onDismiss?: () => void;
+}
+
+const NewsArticleCard: React.FC<NewsArticleCardProps> = ({ article, isNew, isUnread, onOpen, onDismiss }) => (
+    <div className="group relative bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-4 hover:border-slate-300 dark:hover:border-slate-700 transition-colors">
+        <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400 mb-1 pr-6">
+            {isUnread && <span className="w-2 h-2 rounded-full bg-sky-500 flex-shrink-0" aria-label="Unread"></span>}
+            <span className="font-semibold truncate">{article.source || article.url.replace(/^https?:\/\/(www\.)?/, '').split('/')[0]}</span>
+            {isNew && <span className="px-1.5 py-0.5 rounded bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300 font-semibold">New</span>}
+        </div>
+        <a
+            href={article.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={onOpen}
+            className={`block hover:underline ${isUnread ? 'font-bold' : 'font-semibold'}`}
+        >
+            {article.title}
+        </a>
+        {article.snippet && <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">{article.snippet}</p>}
+        {onDismiss && (
+            <button
+                onClick={onDismiss}
+                aria-label="Dismiss article"
+                className="absolute top-3 right-3 p-1 rounded text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 opacity-0 group-hover:opacity-100 focus:opacity-100"
+            >
+                <CloseIcon className="w-4 h-4" />
+            </button>
+        )}
+    </div>
+);
+
+export default NewsArticleCard;
@@ -0,0 +1,244 @@
+import React, { useState, useRef } from 'react';
+import { Conversation, LandmarkIdentification, MenuTranslation, PhotoAnalysis, PhotoAnalysisMode, SignReading } from '../types';
+import * as gemini from '../services/gemini';
+import { landmarkActivity, analysisTitle, startChatFromAnalysis } from '../services/photoAnalysis';
+import { readFileAsDataUrl } from '../services/images';
+import { ModelResponseError } from '../services/modelJson';
+import AddToTripMenu from './AddToTripMenu';
+import { AnalyzeIcon, ChatsIcon } from './icons';
+
+const MODES: { id: PhotoAnalysisMode, label: string, hint: string }[] = [
+    { id: 'menu', label: 'Menu', hint: 'Translate dishes, allergens and prices.' },
+    { id: 'landmark', label: 'Landmark', hint: 'Identify a place and learn its history.' },
+    { id: 'sign', label: 'Sign', hint: 'Read a sign, notice or timetable.' },
+];
+
+const sectionLabelClassName = "text-xs font-semibold uppercase text-slate-500 dark:text-slate-400 mb-2";
+
+const MenuResultCard: React.FC<{ result: MenuTranslation }> = ({ result }) => (
+    <div className="space-y-3">
+        {result.language && <p className="text-sm text-slate-500 dark:text-slate-400">Translated from {result.language}</p>}
+        {result.dishes.length === 0 && <p className="text-sm text-slate-500 dark:text-slate-400">No dishes could be read from this photo.</p>}
+        <ul className="divide-y divide-slate-200 dark:divide-slate-800">
+            {result.dishes.map((dish, index) => (
+                <li key={index} className="py-3">
+                    <div className="flex items-baseline justify-between gap-4">
+                        <div className="min-w-0">
+                            <p className="font-semibold">{dish.name}</p>
+                            {dish.originalName && dish.originalName !== dish.name && <p className="text-sm text-slate-500 dark:text-slate-400">{dish.originalName}</p>}
+                        </div>
+                        {dish.price && <span className="font-semibold flex-shrink-0">{dish.price}</span>}
+                    </div>
+                    {dish.description && <p className="text-sm text-slate-600 dark:text-slate-300 mt-1">{dish.description}</p>}
+                    {dish.allergens.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                            {dish.allergens.map(allergen => (
+                                <span key={allergen} className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">{allergen}</span>
+                            ))}
+                        </div>
+                    )}
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
+const LandmarkResultCard: React.FC<{ result: LandmarkIdentification }> = ({ result }) => (
+    <div className="space-y-4">
+        <div>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+                {[result.city, result.country].filter(Boolean).join(', ')}
+                {result.confidence !== 'high' && <span className="ml-2 text-amber-600">{result.confidence === 'low' ? 'Best guess' : 'Likely match'}</span>}
+            </p>
+            {result.summary && <p className="mt-2">{result.summary}</p>}
+        </div>
+        {result.history && (
+            <div>
+                <p className={sectionLabelClassName}>History</p>
+                <p className="text-sm text-slate-600 dark:text-slate-300">{result.history}</p>
+            </div>
+        )}
+        {result.nearbyTips.length > 0 && (
+            <div>
+                <p className={sectionLabelClassName}>Tips</p>
+                <ul className="list-disc pl-5 text-sm text-slate-600 dark:text-slate-300 space-y-1">
+                    {result.nearbyTips.map((tip, index) => <li key={index}>{tip}</li>)}
+                </ul>
+            </div>
+        )}
+    </div>
+);
+
+const SignResultCard: React.FC<{ result: SignReading }> = ({ result }) => (
+    <div className="space-y-4">
+        {result.language && <p className="text-sm text-slate-500 dark:text-slate-400">Translated from {result.language}</p>}
+        <p className="whitespace-pre-line">{result.translation}</p>
+        {result.keyPoints.length > 0 && (
+            <div>
+                <p className={sectionLabelClassName}>Key points</p>
+                <ul className="list-disc pl-5 text-sm text-slate-600 dark:text-slate-300 space-y-1">
+                    {result.keyPoints.map((point, index) => <li key={index}>{point}</li>)}
+                </ul>
+            </div>
+        )}
+        {result.timetable.length > 0 && (
+            <div>
+                <p className={sectionLabelClassName}>Schedule</p>
+                <table className="w-full text-sm">
+                    <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+                        {result.timetable.map((row, index) => (
+                            <tr key={index}>
+                                <td className="py-1.5 pr-4 font-semibold whitespace-nowrap">{row.time}</td>
+                                <td className="py-1.5 pr-4">{row.destination}</td>
+                                <td className="py-1.5 text-slate-500 dark:text-slate-400">{row.details}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        )}
+    </div>
+);
+
+interface PhotoAnalyzerViewProps {
+    onChatStarted: (conversation: Conversation) => void;
+}
+
+const PhotoAnalyzerView: React.FC<PhotoAnalyzerViewProps> = ({ onChatStarted }) => {
+    const [mode, setMode] = useState<PhotoAnalysisMode>('menu');
+    const [photo, setPhoto] = useState<string | null>(null);
+    const [analysis, setAnalysis] = useState<PhotoAnalysis | null>(null);
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [isStartingChat, setIsStartingChat] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const analyze = async (dataUrl: string, analysisMode: PhotoAnalysisMode) => {
+        const [header, data] = dataUrl.split(',');
+        const mimeType = header.match(/^data:(.*?);/)?.[1] ?? 'image/jpeg';
+        setIsAnalyzing(true);
+        setAnalysis(null);
+        setError(null);
+        try {
+            setAnalysis(await gemini.analyzePhoto(data, mimeType, analysisMode));
+        } catch (analyzeError) {
+            console.error("Failed to analyze photo:", analyzeError);
+            setError(analyzeError instanceof ModelResponseError
+                ? `${analyzeError.message} Try analyzing the photo again.`
+                : "Couldn't read that photo. Try a sharper, closer shot.");
+        } finally {
+            setIsAnalyzing(false);
+        }
+    };
+
+    const upload = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const dataUrl = await readFileAsDataUrl(file);
+            setPhoto(dataUrl);
+            await analyze(dataUrl, mode);
+        } catch (uploadError) {
+            console.error("Failed to read photo:", uploadError);
+            setError("Couldn't read that file.");
+        } finally {
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        }
+    };
+
+    const switchMode = (next: PhotoAnalysisMode) => {
+        if (next === mode || isAnalyzing) return;
+        setMode(next);
+        if (photo) analyze(photo, next);
+    };
+
+    const askInChat = async () => {
+        if (!analysis || isStartingChat) return;
+        setIsStartingChat(true);
+        try {
+            onChatStarted(await startChatFromAnalysis(analysis));
+        } catch (chatError) {
+            console.error("Failed to start chat from photo:", chatError);
+            setError("Couldn't open a chat about this photo.");
+        } finally {
+            setIsStartingChat(false);
+        }
+    };
+
+    return (
+        <div className="p-8 max-w-5xl space-y-8">
+            <div>
+                <h1 className="text-3xl font-bold">Photo analyzer</h1>
+                <p className="text-slate-500 dark:text-slate-400 mt-1">Snap a menu, landmark or sign and get it explained in English.</p>
+            </div>
+
+            <section className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl p-5 space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                    {MODES.map(m => (
+                        <button
+                            key={m.id}
+                            onClick={() => switchMode(m.id)}
+                            disabled={isAnalyzing}
+                            className={`text-left p-3 rounded-xl border disabled:opacity-50 ${
+                                m.id === mode
+                                ? 'border-sky-500 bg-sky-50 dark:bg-sky-950'
+                                : 'border-slate-200 dark:border-slate-700 hover:border-slate-400 dark:hover:border-slate-500'
+                            }`}
+                        >
+                            <p className="font-semibold">{m.label}</p>
+                            <p className="text-sm text-slate-500 dark:text-slate-400">{m.hint}</p>
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-2">
+                    <input ref={fileInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={(e) => upload(e.target.files?.[0])} />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isAnalyzing}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-sky-500 text-white hover:bg-sky-600 disabled:opacity-50"
+                    >
+                        <AnalyzeIcon className="w-4 h-4" />
+                        {isAnalyzing ? 'Analyzing…' : photo ? 'Choose another photo' : 'Choose a photo'}
+                    </button>
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </section>
+
+            {photo ? (
+                <section className="grid grid-cols-1 md:grid-cols-5 gap-6">
+                    <div className="md:col-span-2 bg-slate-100 dark:bg-slate-900 rounded-2xl p-4 flex justify-center items-start">
+                        <img src={photo} alt="Uploaded photo" className={`max-h-[28rem] rounded-lg object-contain ${isAnalyzing ? 'opacity-50 animate-pulse' : ''}`} />
+                    </div>
+                    <div className="md:col-span-3">
+                        {analysis && (
+                            <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl p-5 space-y-4">
+                                <h2 className="text-xl font-semibold">{analysisTitle(analysis)}</h2>
+                                {analysis.mode === 'menu' && <MenuResultCard result={analysis.result} />}
+                                {analysis.mode === 'landmark' && <LandmarkResultCard result={analysis.result} />}
+                                {analysis.mode === 'sign' && <SignResultCard result={analysis.result} />}
+                                <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-slate-200 dark:border-slate-800">
+                                    <button
+                                        onClick={askInChat}
+                                        disabled={isStartingChat}
+                                        className="flex items-center gap-2 px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500 disabled:opacity-50"
+                                    >
+                                        <ChatsIcon className="w-4 h-4" />
+                                        Ask in chat
+                                    </button>
+                                    {analysis.mode === 'landmark' && <AddToTripMenu activity={landmarkActivity(analysis.result)} />}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </section>
+            ) : (
+                <div className="text-center py-16 text-slate-500 dark:text-slate-400">
+                    <AnalyzeIcon className="w-10 h-10 mx-auto mb-3" />
+                    <p className="font-semibold text-slate-700 dark:text-slate-300">No photo yet</p>
+                    <p className="text-sm">Pick a mode, then choose a photo from your camera or library.</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PhotoAnalyzerView;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { DEFAULT_PLACE_FILTER, MIN_RATING_OPTIONS, PLACE_CATEGORIES, PLACE_CATEGORY_LABELS, PLACE_SORT_LABELS, PlaceFilter, PlaceSort } from '../services/places';
+
+const selectClassName = "bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-full px-3 py-1 text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-sky-500";
+
+interface PlaceControlsProps {
+    sort: PlaceSort;
+    filter: PlaceFilter;
+    onSortChange: (sort: PlaceSort) => void;
+    onFilterChange: (filter: PlaceFilter) => void;
+    shownCount: number;
+    totalCount: number;
+}
+
+/** Category chips, a minimum rating and a sort order for a list of places. */
+const PlaceControls: React.FC<PlaceControlsProps> = ({ sort, filter, onSortChange, onFilterChange, shownCount, totalCount }) => {
+    const isFiltered = filter.categories.length > 0 || filter.minRating > 0;
+
+    const toggleCategory = (category: PlaceFilter['categories'][number]) => onFilterChange({
+        ...filter,
+        categories: filter.categories.includes(category)
+            ? filter.categories.filter(c => c !== category)
+            : [...filter.categories, category],
+    });
+
+    const chipClassName = (isActive: boolean) => `px-3 py-1 border rounded-full text-sm font-semibold ${
+        isActive
+        ? 'bg-slate-800 text-white border-slate-800 dark:bg-slate-200 dark:text-slate-900 dark:border-slate-200'
+        : 'border-slate-300 dark:border-slate-700 hover:border-slate-400 dark:hover:border-slate-500'
+    }`;
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            {PLACE_CATEGORIES.map(category => (
+                <button
+                    key={category}
+                    onClick={() => toggleCategory(category)}
+                    aria-pressed={filter.categories.includes(category)}
+                    className={chipClassName(filter.categories.includes(category))}
+                >
+                    {PLACE_CATEGORY_LABELS[category]}
+                </button>
+            ))}
+            <select
+                value={filter.minRating}
+                onChange={(e) => onFilterChange({ ...filter, minRating: parseFloat(e.target.value) })}
+                aria-label="Minimum rating"
+                className={selectClassName}
+            >
+                {MIN_RATING_OPTIONS.map(rating => (
+                    <option key={rating} value={rating}>{rating === 0 ? 'Any rating' : `${rating}+ ★`}</option>
+                ))}
+            </select>
+            <select value={sort} onChange={(e) => onSortChange(e.target.value as PlaceSort)} aria-label="Sort by" className={selectClassName}>
+                {(Object.keys(PLACE_SORT_LABELS) as PlaceSort[]).map(option => (
+                    <option key={option} value={option}>{PLACE_SORT_LABELS[option]}</option>
+                ))}
+            </select>
+            {isFiltered && (
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                    {shownCount === 0 ? 'No places match these filters.' : `${shownCount} of ${totalCount} places`}
+                    <button onClick={() => onFilterChange(DEFAULT_PLACE_FILTER)} className="ml-2 font-semibold text-sky-600 hover:underline">Clear filters</button>
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default PlaceControls;
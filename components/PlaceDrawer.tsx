@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Restaurant, YouTubeVideo } from '../types';
+import { TextResult } from '../services/providers/types';
+import { getPlaceOverview, getTravelVideos } from '../services/lookups';
+import { canRetry, describeAIError } from '../services/aiErrors';
+import { formatDistance, placeActivity, placeChatPrompt, placeTypeLabel } from '../services/places';
+import MapPanel, { MapPoint } from './MapPanel';
+import CitedText from './CitedText';
+import SaveButton from './SaveButton';
+import AddToTripMenu from './AddToTripMenu';
+import { ChatsIcon, CloseIcon, LocationIcon, StarIcon, VideoIcon } from './icons';
+
+const MAX_VIDEOS = 4;
+
+interface PlaceDrawerProps {
+    place: Restaurant;
+    /** The city the place was found in, to narrow the video search. */
+    city?: string;
+    onClose: () => void;
+    onPlayVideo: (video: YouTubeVideo) => void;
+    /** Opens a new chat with the given first message. */
+    onAskAbout: (prompt: string) => void;
+}
+
+/** Details for one recommended place, sliding in from the right. Render with `key={place.placeId}`. */
+const PlaceDrawer: React.FC<PlaceDrawerProps> = ({ place, city, onClose, onPlayVideo, onAskAbout }) => {
+    const [overview, setOverview] = useState<TextResult | null>(null);
+    const [overviewError, setOverviewError] = useState<{ message: string, canRetry: boolean } | null>(null);
+    const [isOverviewLoading, setIsOverviewLoading] = useState(false);
+    const [videos, setVideos] = useState<YouTubeVideo[] | null>(null);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    // The overview is a billed, grounded search, so it is only asked for when
+    // the user wants it; a cached one is shown straight away.
+    const loadOverview = async () => {
+        setIsOverviewLoading(true);
+        setOverviewError(null);
+        try {
+            setOverview(await getPlaceOverview(place, setOverview));
+        } catch (error) {
+            console.error("Failed to load place overview:", error);
+            setOverviewError({ message: describeAIError(error, 'load an overview of this place'), canRetry: canRetry(error) });
+        } finally {
+            setIsOverviewLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        let cancelled = false;
+        const topic = city ? `${place.name} ${city}` : place.name;
+        getTravelVideos(topic, page => { if (!cancelled) setVideos(page.videos); })
+            .then(page => { if (!cancelled) setVideos(page.videos); })
+            .catch(error => {
+                console.error("Failed to load videos for place:", error);
+                if (!cancelled) setVideos([]);
+            });
+        return () => { cancelled = true; };
+    }, [place.placeId, place.name, city]);
+
+    const mapPoints = useMemo<MapPoint[]>(() => [{ label: place.name, ...place.location }], [place]);
+
+    return (
+        <div className="fixed inset-0 z-30 flex justify-end bg-black/50" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-label={place.name}
+                onClick={(e) => e.stopPropagation()}
+                className="h-full w-full max-w-md overflow-y-auto bg-white dark:bg-slate-900 shadow-lg text-slate-900 dark:text-slate-200"
+            >
+                <div className="relative h-48 bg-slate-200 dark:bg-slate-800">
+                    <img
+                        src={place.imageUrl || `https://source.unsplash.com/random/400x400?${encodeURIComponent(place.name)}`}
+                        alt={place.name}
+                        className="w-full h-full object-cover"
+                    />
+                    <button onClick={onClose} aria-label="Close" className="absolute top-3 right-3 p-2 rounded-full bg-black/50 text-white hover:bg-black/70">
+                        <CloseIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-6">
+                    <div className="space-y-2">
+                        <h2 className="text-2xl font-bold">{place.name}</h2>
+                        <p className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-slate-600 dark:text-slate-300">
+                            {place.rating > 0 && (
+                                <span className="flex items-center gap-1">
+                                    <StarIcon className="w-4 h-4 text-amber-400" />
+                                    <span className="font-semibold">{place.rating.toFixed(1)}</span>
+                                    <span className="text-slate-500 dark:text-slate-400">({place.reviewCount.toLocaleString()} reviews)</span>
+                                </span>
+                            )}
+                            {place.distance !== undefined && <span>{formatDistance(place.distance)} away</span>}
+                        </p>
+                        {place.vicinity && (
+                            <p className="flex items-start gap-1 text-sm text-slate-600 dark:text-slate-300">
+                                <LocationIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                {place.vicinity}
+                            </p>
+                        )}
+                        {place.types && place.types.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                                {place.types.map(type => (
+                                    <span key={type} className="px-2 py-0.5 rounded-full bg-slate-100 dark:bg-slate-800 text-xs text-slate-600 dark:text-slate-300">{placeTypeLabel(type)}</span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                        <button
+                            onClick={() => onAskAbout(placeChatPrompt(place))}
+                            className="flex items-center gap-1 px-3 py-1.5 rounded-full text-sm font-semibold bg-sky-500 text-white hover:bg-sky-600"
+                        >
+                            <ChatsIcon className="w-4 h-4" />
+                            Ask about this place
+                        </button>
+                        <SaveButton data={{ kind: 'place', place }} variant="inline" />
+                        <AddToTripMenu activity={placeActivity(place)} />
+                    </div>
+
+                    <MapPanel points={mapPoints} showRoute={false} />
+
+                    <section className="space-y-2">
+                        <h3 className="font-bold">Overview</h3>
+                        {overview ? (
+                            <div className="text-sm">
+                                <CitedText text={overview.text} chunks={overview.groundingChunks} supports={overview.groundingSupports} />
+                            </div>
+                        ) : isOverviewLoading ? (
+                            <div className="space-y-2 animate-pulse">
+                                <div className="h-4 bg-slate-200 dark:bg-slate-700 rounded" />
+                                <div className="h-4 bg-slate-200 dark:bg-slate-700 rounded w-5/6" />
+                                <div className="h-4 bg-slate-200 dark:bg-slate-700 rounded w-2/3" />
+                            </div>
+                        ) : overviewError ? (
+                            <p className="text-sm text-slate-500 dark:text-slate-400">
+                                {overviewError.message}
+                                {overviewError.canRetry && <button onClick={loadOverview} className="ml-2 font-semibold text-sky-600 hover:underline">Try again</button>}
+                            </p>
+                        ) : (
+                            <button
+                                onClick={loadOverview}
+                                className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500"
+                            >
+                                Get an overview from the web
+                            </button>
+                        )}
+                    </section>
+
+                    <section className="space-y-2">
+                        <h3 className="font-bold">Videos</h3>
+                        {videos === null ? (
+                            <div className="grid grid-cols-2 gap-3">
+                                {Array.from({ length: 2 }).map((_, i) => (
+                                    <div key={i} className="aspect-video rounded-lg bg-slate-200 dark:bg-slate-700 animate-pulse" />
+                                ))}
+                            </div>
+                        ) : videos.length === 0 ? (
+                            <p className="text-sm text-slate-500 dark:text-slate-400">No videos found for this place.</p>
+                        ) : (
+                            <div className="grid grid-cols-2 gap-3">
+                                {videos.slice(0, MAX_VIDEOS).map(video => (
+                                    <button key={video.videoId} onClick={() => onPlayVideo(video)} className="text-left group">
+                                        <div className="relative aspect-video rounded-lg overflow-hidden bg-slate-200 dark:bg-slate-800">
+                                            <img src={video.thumbnailUrl} alt={video.title} className="w-full h-full object-cover" />
+                                            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-10 h-10 bg-black/50 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                                                <VideoIcon className="w-5 h-5 text-white" />
+                                            </div>
+                                        </div>
+                                        <p className="mt-1 text-sm font-semibold line-clamp-2">{video.title}</p>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </section>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PlaceDrawer;
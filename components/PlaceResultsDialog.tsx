@@ -0,0 +1,75 @@
+import React, { useMemo } from 'react';
+import { Restaurant } from '../types';
+import { filterPlaces, formatDistance, formatRating, PlaceFilter, PlaceSort, sortPlaces } from '../services/places';
+import PlaceControls from './PlaceControls';
+import SaveButton from './SaveButton';
+import { CloseIcon, StarIcon } from './icons';
+
+interface PlaceResultsDialogProps {
+    title: string;
+    places: Restaurant[];
+    sort: PlaceSort;
+    filter: PlaceFilter;
+    onSortChange: (sort: PlaceSort) => void;
+    onFilterChange: (filter: PlaceFilter) => void;
+    onOpenPlace: (place: Restaurant) => void;
+    onClose: () => void;
+}
+
+/** Every place a nearby search returned, with the same sort and filters as the carousel. */
+const PlaceResultsDialog: React.FC<PlaceResultsDialogProps> = ({ title, places, sort, filter, onSortChange, onFilterChange, onOpenPlace, onClose }) => {
+    const shown = useMemo(() => sortPlaces(filterPlaces(places, filter), sort), [places, filter, sort]);
+
+    return (
+        <div className="fixed inset-0 z-30 flex items-center justify-center p-6 bg-black/50" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-label={title}
+                onClick={(e) => e.stopPropagation()}
+                className="w-full max-w-5xl max-h-full overflow-y-auto p-6 space-y-5 bg-white dark:bg-slate-900 rounded-2xl shadow-lg text-slate-900 dark:text-slate-200"
+            >
+                <div className="flex items-start justify-between gap-4">
+                    <h2 className="text-xl font-bold">{title}</h2>
+                    <button onClick={onClose} aria-label="Close" className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">
+                        <CloseIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <PlaceControls
+                    sort={sort}
+                    filter={filter}
+                    onSortChange={onSortChange}
+                    onFilterChange={onFilterChange}
+                    shownCount={shown.length}
+                    totalCount={places.length}
+                />
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {shown.map(place => (
+                        <div key={place.placeId} className="relative">
+                            <button onClick={() => onOpenPlace(place)} className="block w-full text-left group">
+                                <div className="aspect-video rounded-xl overflow-hidden bg-slate-200 dark:bg-slate-800">
+                                    <img
+                                        src={place.imageUrl || `https://source.unsplash.com/random/400x400?${encodeURIComponent(place.name)}`}
+                                        alt={place.name}
+                                        className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+                                    />
+                                </div>
+                                <p className="mt-2 font-semibold line-clamp-2">{place.name}</p>
+                                <p className="text-sm text-slate-500 dark:text-slate-400 truncate">{place.vicinity}</p>
+                                <p className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-300">
+                                    {place.rating > 0 && <><StarIcon className="w-4 h-4 text-amber-400" />{formatRating(place)}</>}
+                                    {place.rating > 0 && place.distance !== undefined && <span aria-hidden="true">·</span>}
+                                    {place.distance !== undefined && formatDistance(place.distance)}
+                                </p>
+                            </button>
+                            <SaveButton data={{ kind: 'place', place }} className="absolute top-2 left-2" />
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PlaceResultsDialog;
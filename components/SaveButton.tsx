@@ -0,0 +1,105 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { SavedItemData } from '../types';
+import * as saved from '../services/saved';
+import { HeartIcon } from './icons';
+
+const inputClassName = "w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500";
+
+interface SaveButtonProps {
+    data: SavedItemData;
+    /** 'overlay' sits on a photo; 'inline' sits in a line of text. */
+    variant?: 'overlay' | 'inline';
+    className?: string;
+}
+
+/** Heart that saves an item and opens a list of collections to file it in. */
+const SaveButton: React.FC<SaveButtonProps> = ({ data, variant = 'overlay', className = '' }) => {
+    const [state, setState] = useState<saved.SavedState>({ collections: [], items: [] });
+    const [isOpen, setIsOpen] = useState(false);
+    const [newName, setNewName] = useState('');
+    const menuRef = useRef<HTMLDivElement>(null);
+    const key = saved.savedItemKey(data);
+
+    useEffect(() => saved.subscribeToSaved(setState), []);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const savedIn = state.items.filter(item => item.key === key);
+    const isSaved = savedIn.length > 0;
+
+    const run = (action: Promise<unknown>) => action.catch(error => console.error("Failed to update saved items:", error));
+
+    const handleHeart = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        // The first save goes straight to the first collection; the menu then offers the others.
+        if (!isSaved) run(saved.saveItem(data));
+        setIsOpen(open => !open);
+    };
+
+    const toggleCollection = (collectionId: string) => {
+        const existing = savedIn.find(item => item.collectionId === collectionId);
+        run(existing ? saved.removeItem(existing.id) : saved.saveItem(data, collectionId));
+    };
+
+    const addCollection = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+        const name = newName;
+        setNewName('');
+        run(saved.createCollection(name).then(collection => saved.saveItem(data, collection.id)));
+    };
+
+    const buttonClassName = variant === 'overlay'
+        ? `p-2 rounded-full bg-black/50 hover:bg-black/70 ${isSaved ? 'text-rose-400' : 'text-white'}`
+        : `p-0.5 ${isSaved ? 'text-rose-500' : 'text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}`;
+
+    return (
+        <div ref={menuRef} className={`relative ${className}`}>
+            <button onClick={handleHeart} aria-label={isSaved ? 'Saved' : 'Save'} aria-pressed={isSaved} className={buttonClassName}>
+                <HeartIcon className={variant === 'overlay' ? 'w-5 h-5' : 'w-3.5 h-3.5'} filled={isSaved} />
+            </button>
+            {isOpen && (
+                <div onClick={(e) => e.stopPropagation()} className="absolute left-0 top-full mt-2 w-64 p-2 z-20 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl shadow-lg text-slate-900 dark:text-slate-200">
+                    <p className="px-3 pt-1 pb-1 text-xs font-semibold uppercase text-slate-500 dark:text-slate-400">Save to</p>
+                    <div className="max-h-56 overflow-y-auto">
+                        {state.collections.map(collection => (
+                            <label key={collection.id} className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-800">
+                                <input
+                                    type="checkbox"
+                                    checked={savedIn.some(item => item.collectionId === collection.id)}
+                                    onChange={() => toggleCollection(collection.id)}
+                                    className="accent-sky-500"
+                                />
+                                <span className="truncate">{collection.name}</span>
+                            </label>
+                        ))}
+                    </div>
+                    <form onSubmit={addCollection} className="flex gap-2 p-1 pt-2">
+                        <input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="New collection" className={inputClassName} />
+                        <button type="submit" disabled={!newName.trim()} className="px-3 rounded-lg text-sm font-semibold bg-sky-500 text-white hover:bg-sky-600 disabled:opacity-50">
+                            Add
+                        </button>
+                    </form>
+                    {isSaved && (
+                        <button
+                            onClick={() => { run(saved.unsaveEverywhere(data)); setIsOpen(false); }}
+                            className="w-full text-left px-3 py-2 rounded-lg text-sm text-red-600 hover:bg-slate-100 dark:hover:bg-slate-800"
+                        >
+                            Remove from all collections
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SaveButton;
@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react';
+import { Collection, SavedItem } from '../types';
+import * as saved from '../services/saved';
+import { ChatsIcon, PencilIcon, SavedIcon, TrashIcon } from './icons';
+
+const SORT_LABELS: Record<saved.SavedSort, string> = {
+    newest: 'Newest first',
+    oldest: 'Oldest first',
+    name: 'Name',
+    type: 'Type',
+};
+
+interface SavedViewProps {
+    /** Opens a new chat with this message ready to send. */
+    onStartChat: (draft: string) => void;
+}
+
+const SavedView: React.FC<SavedViewProps> = ({ onStartChat }) => {
+    const [state, setState] = useState<saved.SavedState>({ collections: [], items: [] });
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
+    const [sort, setSort] = useState<saved.SavedSort>('newest');
+
+    useEffect(() => saved.subscribeToSaved(setState), []);
+
+    const selected = state.collections.find(c => c.id === selectedId) ?? state.collections[0];
+
+    const create = async (name: string) => {
+        if (!name.trim()) return;
+        try {
+            const collection = await saved.createCollection(name);
+            setSelectedId(collection.id);
+            setDraft('');
+        } catch (error) {
+            console.error("Failed to create collection:", error);
+        }
+    };
+
+    const countIn = (collection: Collection) => state.items.filter(item => item.collectionId === collection.id).length;
+
+    return (
+        <div className="flex h-full">
+            <aside className="w-80 flex-shrink-0 border-r border-slate-200 dark:border-slate-800 flex flex-col">
+                <form
+                    className="p-4 border-b border-slate-200 dark:border-slate-800 flex gap-2"
+                    onSubmit={(e) => { e.preventDefault(); create(draft); }}
+                >
+                    <input
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        placeholder="New collection"
+                        className="flex-1 min-w-0 bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+                    />
+                    <button type="submit" disabled={!draft.trim()} className="px-3 py-2 bg-sky-500 text-white rounded-lg text-sm font-semibold hover:bg-sky-600 disabled:opacity-50">
+                        Create
+                    </button>
+                </form>
+                <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+                    {state.collections.length === 0 && (
+                        <li className="p-3 text-sm text-slate-500 dark:text-slate-400">Tap the heart on a place or video to start a collection.</li>
+                    )}
+                    {state.collections.map(collection => (
+                        <li key={collection.id}>
+                            <button
+                                onClick={() => setSelectedId(collection.id)}
+                                className={`w-full flex items-center gap-2 p-3 rounded-lg text-left ${
+                                    collection.id === selected?.id ? 'bg-slate-100 dark:bg-slate-800' : 'hover:bg-slate-100 dark:hover:bg-slate-800'
+                                }`}
+                            >
+                                <span className="flex-1 truncate">{collection.name}</span>
+                                <span className="text-xs text-slate-500 dark:text-slate-400">{countIn(collection)}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            </aside>
+
+            <div className="flex-1 min-w-0 overflow-y-auto p-8">
+                {!selected ? (
+                    <div className="text-center py-24 text-slate-500 dark:text-slate-400">
+                        <SavedIcon className="w-10 h-10 mx-auto mb-3" />
+                        <p className="font-semibold text-slate-700 dark:text-slate-300">Nothing saved yet</p>
+                        <p className="text-sm">Places and videos you save from Explore and chats show up here.</p>
+                    </div>
+                ) : (
+                    <CollectionPanel
+                        key={selected.id}
+                        collection={selected}
+                        items={saved.sortSavedItems(state.items.filter(item => item.collectionId === selected.id), sort)}
+                        sort={sort}
+                        onSortChange={setSort}
+                        onStartChat={onStartChat}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+interface CollectionPanelProps {
+    collection: Collection;
+    items: SavedItem[];
+    sort: saved.SavedSort;
+    onSortChange: (sort: saved.SavedSort) => void;
+    onStartChat: (draft: string) => void;
+}
+
+const CollectionPanel: React.FC<CollectionPanelProps> = ({ collection, items, sort, onSortChange, onStartChat }) => {
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [name, setName] = useState(collection.name);
+
+    const rename = async () => {
+        setIsRenaming(false);
+        if (name.trim() === collection.name) return;
+        try {
+            await saved.renameCollection(collection.id, name);
+        } catch (error) {
+            console.error("Failed to rename collection:", error);
+        }
+    };
+
+    const remove = async () => {
+        if (!window.confirm(`Delete "${collection.name}" and everything saved in it?`)) return;
+        try {
+            await saved.deleteCollection(collection.id);
+        } catch (error) {
+            console.error("Failed to delete collection:", error);
+        }
+    };
+
+    return (
+        <div className="max-w-5xl">
+            <div className="flex items-center justify-between gap-4 mb-6">
+                {isRenaming ? (
+                    <form className="flex-1" onSubmit={(e) => { e.preventDefault(); rename(); }}>
+                        <input
+                            autoFocus
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            onBlur={rename}
+                            onKeyDown={(e) => { if (e.key === 'Escape') { setName(collection.name); setIsRenaming(false); } }}
+                            className="w-full text-3xl font-bold bg-transparent border-b border-slate-300 dark:border-slate-600 focus:outline-none focus:border-sky-500"
+                        />
+                    </form>
+                ) : (
+                    <h1 className="text-3xl font-bold truncate">{collection.name}</h1>
+                )}
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    <button onClick={() => { setName(collection.name); setIsRenaming(true); }} aria-label="Rename collection" className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">
+                        <PencilIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={remove} aria-label="Delete collection" className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                <button
+                    onClick={() => onStartChat(saved.collectionPrompt(collection, items))}
+                    disabled={items.length === 0}
+                    className="flex items-center gap-2 px-4 py-2 bg-sky-500 text-white rounded-full text-sm font-semibold hover:bg-sky-600 disabled:opacity-50"
+                >
+                    <ChatsIcon className="w-4 h-4" />
+                    Plan a day around these
+                </button>
+                <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+                    Sort by
+                    <select
+                        value={sort}
+                        onChange={(e) => onSortChange(e.target.value as saved.SavedSort)}
+                        className="bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-1.5 text-slate-900 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500"
+                    >
+                        {(Object.keys(SORT_LABELS) as saved.SavedSort[]).map(option => (
+                            <option key={option} value={option}>{SORT_LABELS[option]}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {items.length === 0 ? (
+                <p className="text-slate-500 dark:text-slate-400">This collection is empty. Use the heart on a place or video to add it here.</p>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
+                    {items.map(item => <SavedItemCard key={item.id} item={item} />)}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const SavedItemCard: React.FC<{ item: SavedItem }> = ({ item }) => {
+    const [note, setNote] = useState(item.note);
+    const image = saved.savedItemImage(item.data);
+    const url = saved.savedItemUrl(item.data);
+    const title = saved.savedItemTitle(item.data);
+
+    const saveNote = () => {
+        saved.setItemNote(item.id, note.trim()).catch(error => console.error("Failed to save note:", error));
+    };
+
+    return (
+        <div className="flex flex-col rounded-2xl overflow-hidden border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+            {image && <img src={image} alt={title} className="w-full h-40 object-cover" />}
+            <div className="flex-1 flex flex-col gap-2 p-4">
+                <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                        <span className="text-xs font-semibold uppercase text-slate-500 dark:text-slate-400">{saved.savedItemKindLabel(item.data)}</span>
+                        {url ? (
+                            <a href={url} target="_blank" rel="noopener noreferrer" className="block font-bold line-clamp-2 hover:underline">{title}</a>
+                        ) : (
+                            <p className="font-bold line-clamp-2">{title}</p>
+                        )}
+                        <p className="text-sm text-slate-500 dark:text-slate-400 truncate">{saved.savedItemSubtitle(item.data)}</p>
+                    </div>
+                    <button
+                        onClick={() => saved.removeItem(item.id).catch(error => console.error("Failed to remove saved item:", error))}
+                        aria-label="Remove from collection"
+                        className="p-1 text-slate-400 hover:text-red-600 flex-shrink-0"
+                    >
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                </div>
+                <textarea
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    onBlur={saveNote}
+                    placeholder="Add a note"
+                    rows={2}
+                    className="w-full mt-auto bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-sky-500"
+                />
+            </div>
+        </div>
+    );
+};
+
+export default SavedView;
@@ -0,0 +1,41 @@
+import React, { useState, useEffect } from 'react';
+import * as speech from '../services/speech';
+import { PauseIcon, SoundIcon } from './icons';
+
+interface SpeakButtonProps {
+    title: string;
+    text: string;
+    label?: string;
+    className?: string;
+}
+
+/** Reads `text` aloud, or pauses and resumes it when it is already the current narration. */
+const SpeakButton: React.FC<SpeakButtonProps> = ({ title, text, label, className = '' }) => {
+    const [narration, setNarration] = useState<speech.Narration | null>(null);
+
+    useEffect(() => speech.subscribeToNarration(setNarration), []);
+
+    if (!text.trim()) return null;
+
+    const isCurrent = narration?.text === text;
+    const isPlaying = isCurrent && (narration.status === 'playing' || narration.status === 'loading');
+
+    const handleClick = () => {
+        if (!isCurrent || narration.status === 'error') speech.narrate(title, text);
+        else if (narration.status !== 'loading') speech.togglePause();
+    };
+
+    return (
+        <button
+            onClick={handleClick}
+            aria-label={isPlaying ? `Pause ${title}` : `Read ${title} aloud`}
+            title={isPlaying ? 'Pause' : 'Read aloud'}
+            className={`flex items-center gap-1 ${isCurrent ? 'text-sky-600' : ''} ${isCurrent && narration.status === 'loading' ? 'animate-pulse' : ''} ${className}`}
+        >
+            {isPlaying && narration.status === 'playing' ? <PauseIcon className="w-3.5 h-3.5" /> : <SoundIcon className="w-4 h-4" />}
+            {label}
+        </button>
+    );
+};
+
+export default SpeakButton;
@@ -0,0 +1,298 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Activity, Day, Itinerary, Trip } from '../types';
+import * as tripStore from '../services/trips';
+import { createEmptyActivity, createEmptyDay, renumberDays } from '../services/itinerary';
+import { formatTimestamp, timestampUrl } from '../services/vlogs';
+import ExportMenu from './ExportMenu';
+import VlogImportDialog from './VlogImportDialog';
+import { ChatsIcon, ChevronLeftIcon, TrashIcon, TripsIcon, VideoIcon } from './icons';
+
+const ACTIVITY_TYPES: Activity['type'][] = ['flight', 'hotel', 'dining', 'activity', 'travel'];
+
+const inputClassName = "w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-500";
+
+interface TripsViewProps {
+    onOpenConversation: (conversationId: string) => void;
+}
+
+const TripsView: React.FC<TripsViewProps> = ({ onOpenConversation }) => {
+    const [trips, setTrips] = useState<Trip[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [selectedTripId, setSelectedTripId] = useState<string | null>(null);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+
+    const refreshTrips = useCallback(async () => {
+        try {
+            setTrips(await tripStore.listTrips());
+        } catch (error) {
+            console.error("Failed to load trips:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refreshTrips();
+    }, [refreshTrips]);
+
+    const handleDelete = async (trip: Trip) => {
+        if (!window.confirm(`Delete your trip to ${trip.itinerary.destination || 'this destination'}?`)) return;
+        await tripStore.deleteTrip(trip.id);
+        setSelectedTripId(null);
+        refreshTrips();
+    };
+
+    const selectedTrip = trips.find(t => t.id === selectedTripId);
+    if (selectedTrip) {
+        return (
+            <TripDetail
+                trip={selectedTrip}
+                onBack={() => setSelectedTripId(null)}
+                onChange={(trip) => setTrips(prev => prev.map(t => t.id === trip.id ? trip : t))}
+                onDelete={() => handleDelete(selectedTrip)}
+                onOpenConversation={onOpenConversation}
+            />
+        );
+    }
+
+    return (
+        <div className="p-8 max-w-5xl">
+            <div className="flex items-center justify-between gap-4 mb-6">
+                <h1 className="text-3xl font-bold">Trips</h1>
+                <button
+                    onClick={() => setIsImportOpen(true)}
+                    className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500"
+                >
+                    <VideoIcon className="w-4 h-4" />
+                    Plan from a video
+                </button>
+            </div>
+            {isImportOpen && (
+                <VlogImportDialog
+                    onClose={() => setIsImportOpen(false)}
+                    onOpenConversation={conversation => onOpenConversation(conversation.id)}
+                    onSaved={refreshTrips}
+                />
+            )}
+            {isLoading ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {Array.from({ length: 3 }).map((_, i) => (
+                        <div key={i} className="h-36 bg-slate-200 dark:bg-slate-700 rounded-2xl animate-pulse"></div>
+                    ))}
+                </div>
+            ) : trips.length === 0 ? (
+                <div className="text-center py-24 text-slate-500 dark:text-slate-400">
+                    <TripsIcon className="w-10 h-10 mx-auto mb-3" />
+                    <p className="font-semibold text-slate-700 dark:text-slate-300">No trips yet</p>
+                    <p className="text-sm">Ask for an itinerary in chat and choose "Save to Trips".</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {trips.map(trip => (
+                        <button
+                            key={trip.id}
+                            onClick={() => setSelectedTripId(trip.id)}
+                            className="text-left rounded-2xl overflow-hidden border border-slate-200 dark:border-slate-800 hover:border-slate-400 dark:hover:border-slate-600 transition-colors"
+                        >
+                            {trip.coverImage && <img src={trip.coverImage} alt="" className="w-full h-32 object-cover" />}
+                            <div className="p-5">
+                                <h2 className="text-lg font-bold line-clamp-1">{trip.itinerary.destination || 'Untitled trip'}</h2>
+                                <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                                    {[trip.itinerary.duration, trip.itinerary.budget].filter(Boolean).join(' • ')}
+                                </p>
+                                <p className="text-xs text-slate-400 mt-4">
+                                    {trip.itinerary.itinerary.length} days &bull; Updated {new Date(trip.updatedAt).toLocaleDateString()}
+                                </p>
+                            </div>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface TripDetailProps {
+    trip: Trip;
+    onBack: () => void;
+    onChange: (trip: Trip) => void;
+    onDelete: () => void;
+    onOpenConversation: (conversationId: string) => void;
+}
+
+const TripDetail: React.FC<TripDetailProps> = ({ trip, onBack, onChange, onDelete, onOpenConversation }) => {
+    const updateItinerary = (changes: Partial<Itinerary>) => {
+        const next: Trip = { ...trip, itinerary: { ...trip.itinerary, ...changes } };
+        onChange(next);
+        tripStore.saveTrip(next).catch(error => console.error("Failed to save trip:", error));
+    };
+
+    const removeCover = () => {
+        onChange({ ...trip, coverImage: undefined });
+        tripStore.setTripCover(trip.id, undefined).catch(error => console.error("Failed to remove trip cover:", error));
+    };
+
+    const days = trip.itinerary.itinerary;
+
+    const updateDay = (index: number, changes: Partial<Day>) => {
+        updateItinerary({ itinerary: days.map((d, i) => i === index ? { ...d, ...changes } : d) });
+    };
+
+    const updateActivity = (dayIndex: number, activityIndex: number, changes: Partial<Activity>) => {
+        const activities = days[dayIndex].activities.map((a, i) => i === activityIndex ? { ...a, ...changes } : a);
+        updateDay(dayIndex, { activities });
+    };
+
+    const addDay = () => {
+        updateItinerary({ itinerary: [...days, createEmptyDay(days.length + 1)] });
+    };
+
+    const removeDay = (index: number) => {
+        updateItinerary({ itinerary: renumberDays(days.filter((_, i) => i !== index)) });
+    };
+
+    return (
+        <div className="p-8 max-w-4xl">
+            <div className="flex items-center justify-between mb-6">
+                <button onClick={onBack} className="flex items-center gap-1 text-sm font-semibold text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-100">
+                    <ChevronLeftIcon className="w-4 h-4" />
+                    All trips
+                </button>
+                <div className="flex items-center gap-2">
+                    <ExportMenu itinerary={trip.itinerary} />
+                    {trip.conversationId && (
+                        <button
+                            onClick={() => onOpenConversation(trip.conversationId!)}
+                            className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500"
+                        >
+                            <ChatsIcon className="w-4 h-4" />
+                            Open chat
+                        </button>
+                    )}
+                    <button
+                        onClick={onDelete}
+                        className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-full text-sm font-semibold text-red-600 hover:border-red-400"
+                    >
+                        <TrashIcon className="w-4 h-4" />
+                        Delete
+                    </button>
+                </div>
+            </div>
+
+            {trip.coverImage && (
+                <div className="relative mb-6">
+                    <img src={trip.coverImage} alt={`Cover for ${trip.itinerary.destination}`} className="w-full h-56 object-cover rounded-2xl" />
+                    <button
+                        onClick={removeCover}
+                        className="absolute top-3 right-3 px-3 py-1 rounded-full bg-black/50 text-white text-sm font-semibold hover:bg-black/70"
+                    >
+                        Remove cover
+                    </button>
+                </div>
+            )}
+
+            <div className="space-y-3 mb-8">
+                <input
+                    value={trip.itinerary.destination}
+                    onChange={(e) => updateItinerary({ destination: e.target.value })}
+                    placeholder="Destination"
+                    className={`${inputClassName} text-2xl font-bold`}
+                />
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="text-sm text-slate-600 dark:text-slate-400">
+                        Duration
+                        <input value={trip.itinerary.duration} onChange={(e) => updateItinerary({ duration: e.target.value })} className={`${inputClassName} mt-1`} />
+                    </label>
+                    <label className="text-sm text-slate-600 dark:text-slate-400">
+                        Budget
+                        <input value={trip.itinerary.budget} onChange={(e) => updateItinerary({ budget: e.target.value })} className={`${inputClassName} mt-1`} />
+                    </label>
+                </div>
+            </div>
+
+            <div className="space-y-6">
+                {days.map((day, dayIndex) => (
+                    <div key={dayIndex} className="p-5 rounded-2xl border border-slate-200 dark:border-slate-800">
+                        <div className="flex items-center gap-3 mb-3">
+                            <span className="font-bold whitespace-nowrap">Day {day.day}</span>
+                            <input
+                                value={day.title}
+                                onChange={(e) => updateDay(dayIndex, { title: e.target.value })}
+                                placeholder="Title"
+                                className={`${inputClassName} font-semibold`}
+                            />
+                            <button onClick={() => removeDay(dayIndex)} className="p-2 text-slate-500 hover:text-red-600" aria-label={`Remove day ${day.day}`}>
+                                <TrashIcon className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <textarea
+                            value={day.summary}
+                            onChange={(e) => updateDay(dayIndex, { summary: e.target.value })}
+                            placeholder="Summary"
+                            rows={2}
+                            className={`${inputClassName} text-sm resize-none mb-4`}
+                        />
+                        <ul className="space-y-2">
+                            {day.activities.map((activity, activityIndex) => (
+                                <li key={activityIndex} className="flex items-center gap-2">
+                                    <input
+                                        value={activity.time}
+                                        onChange={(e) => updateActivity(dayIndex, activityIndex, { time: e.target.value })}
+                                        placeholder="Time"
+                                        className={`${inputClassName} w-32 flex-shrink-0 text-sm`}
+                                    />
+                                    <select
+                                        value={activity.type}
+                                        onChange={(e) => updateActivity(dayIndex, activityIndex, { type: e.target.value as Activity['type'] })}
+                                        className={`${inputClassName} w-32 flex-shrink-0 text-sm capitalize`}
+                                    >
+                                        {ACTIVITY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                                    </select>
+                                    <input
+                                        value={activity.description}
+                                        onChange={(e) => updateActivity(dayIndex, activityIndex, { description: e.target.value })}
+                                        placeholder="Description"
+                                        className={`${inputClassName} text-sm`}
+                                    />
+                                    {activity.videoTimestamp !== undefined && trip.itinerary.sourceVideo?.url && (
+                                        <a
+                                            href={timestampUrl(trip.itinerary.sourceVideo, activity.videoTimestamp)}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="flex items-center gap-1 text-xs font-semibold text-sky-600 hover:underline flex-shrink-0"
+                                            title="Watch this part of the video"
+                                        >
+                                            <VideoIcon className="w-3.5 h-3.5" />
+                                            {formatTimestamp(activity.videoTimestamp)}
+                                        </a>
+                                    )}
+                                    <button
+                                        onClick={() => updateDay(dayIndex, { activities: day.activities.filter((_, i) => i !== activityIndex) })}
+                                        className="p-2 text-slate-500 hover:text-red-600"
+                                        aria-label="Remove activity"
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                        <button
+                            onClick={() => updateDay(dayIndex, { activities: [...day.activities, createEmptyActivity()] })}
+                            className="mt-3 text-sm font-semibold text-sky-600 hover:underline"
+                        >
+                            + Add activity
+                        </button>
+                    </div>
+                ))}
+            </div>
+            <button
+                onClick={addDay}
+                className="mt-6 w-full p-3 rounded-2xl border-2 border-dashed border-slate-300 dark:border-slate-700 font-semibold text-slate-600 dark:text-slate-400 hover:border-slate-400"
+            >
+                + Add day
+            </button>
+        </div>
+    );
+};
+
+export default TripsView;
@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { FeedArticle, FollowedDestination } from '../types';
+import * as updates from '../services/updates';
+import * as tripStore from '../services/trips';
+import { describeAIError } from '../services/aiErrors';
+import NewsArticleCard from './NewsArticleCard';
+import { RefreshIcon, TrashIcon, UpdatesIcon } from './icons';
+
+// Feeds older than this refresh on their own when opened.
+const STALE_AFTER_MS = 3 * 60 * 60 * 1000;
+
+const UpdatesView: React.FC = () => {
+    const [destinations, setDestinations] = useState<FollowedDestination[]>([]);
+    const [tripDestinations, setTripDestinations] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
+    const [refreshingIds, setRefreshingIds] = useState<Set<string>>(new Set());
+    const [errors, setErrors] = useState<Record<string, string>>({});
+
+    useEffect(() => {
+        Promise.all([updates.listFollowedDestinations(), tripStore.listTrips()])
+            .then(([followed, trips]) => {
+                setDestinations(followed);
+                setTripDestinations([...new Set(trips.map(trip => trip.itinerary.destination.trim()).filter(Boolean))]);
+                setSelectedId(followed[0]?.id ?? null);
+            })
+            .catch(error => console.error("Failed to load updates:", error))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const replaceDestination = (updated: FollowedDestination | undefined) => {
+        if (updated) setDestinations(prev => prev.map(d => d.id === updated.id ? updated : d));
+    };
+
+    const refresh = async (destination: FollowedDestination) => {
+        if (refreshingIds.has(destination.id)) return;
+        setRefreshingIds(prev => new Set(prev).add(destination.id));
+        setErrors(({ [destination.id]: _, ...rest }) => rest);
+        try {
+            replaceDestination(await updates.refreshDestination(destination));
+        } catch (error) {
+            console.error(`Failed to refresh updates for ${destination.name}:`, error);
+            setErrors(prev => ({ ...prev, [destination.id]: describeAIError(error, `load updates for ${destination.name}`) }));
+        } finally {
+            setRefreshingIds(prev => {
+                const next = new Set(prev);
+                next.delete(destination.id);
+                return next;
+            });
+        }
+    };
+
+    const selected = destinations.find(d => d.id === selectedId);
+
+    useEffect(() => {
+        if (selected && (!selected.refreshedAt || Date.now() - selected.refreshedAt > STALE_AFTER_MS)) {
+            refresh(selected);
+        }
+    }, [selectedId]);
+
+    const follow = async (name: string) => {
+        if (!name.trim()) return;
+        try {
+            const destination = await updates.followDestination(name);
+            setDestinations(prev => prev.some(d => d.id === destination.id) ? prev : [...prev, destination]);
+            setSelectedId(destination.id);
+            setDraft('');
+        } catch (error) {
+            console.error("Failed to follow destination:", error);
+        }
+    };
+
+    const unfollow = async (destination: FollowedDestination) => {
+        if (!window.confirm(`Stop following ${destination.name}?`)) return;
+        try {
+            await updates.unfollowDestination(destination.id);
+        } catch (error) {
+            console.error("Failed to unfollow destination:", error);
+            setErrors(prev => ({ ...prev, [destination.id]: `Couldn't stop following ${destination.name}. Please try again.` }));
+            return;
+        }
+        const remaining = destinations.filter(d => d.id !== destination.id);
+        setDestinations(remaining);
+        if (selectedId === destination.id) setSelectedId(remaining[0]?.id ?? null);
+    };
+
+    const updateArticle = async (destination: FollowedDestination, article: FeedArticle, changes: Partial<Pick<FeedArticle, 'read' | 'dismissed'>>) => {
+        try {
+            replaceDestination(await updates.updateArticle(destination.id, article.url, changes));
+        } catch (error) {
+            console.error("Failed to update article:", error);
+        }
+    };
+
+    const followed = new Set(destinations.map(d => d.name.toLowerCase()));
+    const suggestions = tripDestinations.filter(name => !followed.has(name.toLowerCase()));
+
+    return (
+        <div className="flex h-full">
+            <aside className="w-80 flex-shrink-0 border-r border-slate-200 dark:border-slate-800 flex flex-col">
+                <form
+                    className="p-4 border-b border-slate-200 dark:border-slate-800 flex gap-2"
+                    onSubmit={(e) => { e.preventDefault(); follow(draft); }}
+                >
+                    <input
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        placeholder="Follow a destination"
+                        className="flex-1 min-w-0 bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+                    />
+                    <button type="submit" disabled={!draft.trim()} className="px-3 py-2 bg-sky-500 text-white rounded-lg text-sm font-semibold hover:bg-sky-600 disabled:opacity-50">
+                        Follow
+                    </button>
+                </form>
+                <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+                    {!isLoading && destinations.length === 0 && (
+                        <li className="p-3 text-sm text-slate-500 dark:text-slate-400">Follow a destination to get news and travel advisories for it.</li>
+                    )}
+                    {destinations.map(destination => {
+                        const unread = updates.unreadCount(destination);
+                        return (
+                            <li key={destination.id}>
+                                <button
+                                    onClick={() => setSelectedId(destination.id)}
+                                    className={`w-full flex items-center gap-2 p-3 rounded-lg text-left ${
+                                        destination.id === selectedId ? 'bg-slate-100 dark:bg-slate-800' : 'hover:bg-slate-100 dark:hover:bg-slate-800'
+                                    }`}
+                                >
+                                    <span className={`flex-1 truncate ${unread > 0 ? 'font-semibold' : ''}`}>{destination.name}</span>
+                                    {unread > 0 && <span className="text-xs bg-sky-500 text-white rounded-full px-2 py-0.5">{unread}</span>}
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+                {suggestions.length > 0 && (
+                    <div className="p-4 border-t border-slate-200 dark:border-slate-800">
+                        <p className="text-xs font-semibold uppercase text-slate-500 dark:text-slate-400 mb-2">From your trips</p>
+                        <div className="flex flex-wrap gap-2">
+                            {suggestions.map(name => (
+                                <button
+                                    key={name}
+                                    onClick={() => follow(name)}
+                                    className="px-3 py-1 border border-slate-300 dark:border-slate-700 rounded-full text-sm hover:border-slate-400 dark:hover:border-slate-500"
+                                >
+                                    + {name}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </aside>
+
+            <div className="flex-1 min-w-0 overflow-y-auto p-8">
+                {!selected ? (
+                    <div className="text-center py-24 text-slate-500 dark:text-slate-400">
+                        <UpdatesIcon className="w-10 h-10 mx-auto mb-3" />
+                        <p className="font-semibold text-slate-700 dark:text-slate-300">No destination selected</p>
+                        <p className="text-sm">Follow a destination, or pick one from your trips.</p>
+                    </div>
+                ) : (
+                    <DestinationFeed
+                        destination={selected}
+                        isRefreshing={refreshingIds.has(selected.id)}
+                        error={errors[selected.id]}
+                        onRefresh={() => refresh(selected)}
+                        onMarkAllRead={async () => replaceDestination(await updates.markAllRead(selected.id))}
+                        onUnfollow={() => unfollow(selected)}
+                        onOpenArticle={(article) => updateArticle(selected, article, { read: true })}
+                        onDismissArticle={(article) => updateArticle(selected, article, { dismissed: true })}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+interface DestinationFeedProps {
+    destination: FollowedDestination;
+    isRefreshing: boolean;
+    error?: string;
+    onRefresh: () => void;
+    onMarkAllRead: () => void;
+    onUnfollow: () => void;
+    onOpenArticle: (article: FeedArticle) => void;
+    onDismissArticle: (article: FeedArticle) => void;
+}
+
+const DestinationFeed: React.FC<DestinationFeedProps> = ({ destination, isRefreshing, error, onRefresh, onMarkAllRead, onUnfollow, onOpenArticle, onDismissArticle }) => {
+    const visible = destination.articles.filter(article => !article.dismissed);
+    const hasUnread = visible.some(article => !article.read);
+
+    return (
+        <div className="max-w-3xl">
+            <div className="flex items-center justify-between gap-4 mb-2">
+                <h1 className="text-3xl font-bold truncate">{destination.name}</h1>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    {hasUnread && (
+                        <button onClick={onMarkAllRead} className="px-3 py-1.5 text-sm font-semibold text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-100">
+                            Mark all read
+                        </button>
+                    )}
+                    <button
+                        onClick={onRefresh}
+                        disabled={isRefreshing}
+                        className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 dark:border-slate-700 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500 disabled:opacity-50"
+                    >
+                        <RefreshIcon className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+                        {isRefreshing ? 'Refreshing…' : 'Refresh'}
+                    </button>
+                    <button onClick={onUnfollow} aria-label={`Stop following ${destination.name}`} className="p-2 text-slate-400 hover:text-red-600">
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+            <p className="text-xs text-slate-400 mb-6">
+                {destination.refreshedAt ? `Updated ${new Date(destination.refreshedAt).toLocaleString()}` : 'Not refreshed yet'}
+            </p>
+
+            {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+            {destination.summary && (
+                <div className="bg-slate-100 dark:bg-slate-800 rounded-xl p-4 mb-6">
+                    <p className="text-xs font-semibold uppercase text-slate-500 dark:text-slate-400 mb-1">Summary</p>
+                    <p className="text-sm whitespace-pre-wrap">{destination.summary}</p>
+                </div>
+            )}
+
+            {isRefreshing && visible.length === 0 ? (
+                <div className="space-y-3">
+                    {Array.from({ length: 3 }).map((_, i) => (
+                        <div key={i} className="h-24 bg-slate-200 dark:bg-slate-700 rounded-xl animate-pulse"></div>
+                    ))}
+                </div>
+            ) : visible.length === 0 ? (
+                !isRefreshing && destination.refreshedAt && <p className="text-sm text-slate-500 dark:text-slate-400">No articles right now. Check back later.</p>
+            ) : (
+                <div className="space-y-3">
+                    {visible.map(article => (
+                        <NewsArticleCard
+                            key={article.url}
+                            article={article}
+                            isUnread={!article.read}
+                            isNew={updates.isNewArticle(destination, article)}
+                            onOpen={() => onOpenArticle(article)}
+                            onDismiss={() => onDismissArticle(article)}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default UpdatesView;
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { VideoJob, VideoJobStatus } from '../types';
+import * as videoJobs from '../services/videoJobs';
+import { TrashIcon, VideoIcon } from './icons';
+
+const STATUS_LABELS: Record<VideoJobStatus, string> = {
+    queued: 'Queued',
+    running: 'Generating',
+    succeeded: 'Ready',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+};
+
+const STATUS_CLASSES: Record<VideoJobStatus, string> = {
+    queued: 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-200',
+    running: 'bg-sky-100 text-sky-700 dark:bg-sky-900 dark:text-sky-200 animate-pulse',
+    succeeded: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-200',
+    failed: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200',
+    cancelled: 'bg-slate-200 text-slate-500 dark:bg-slate-800 dark:text-slate-400',
+};
+
+const pillClassName = "px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500";
+
+function formatElapsed(ms: number): string {
+    const seconds = Math.max(0, Math.floor(ms / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+const VideoPlayer: React.FC<{ video: Blob; aspectRatio: VideoJob['aspectRatio'] }> = ({ video, aspectRatio }) => {
+    const [src, setSrc] = useState<string | null>(null);
+
+    useEffect(() => {
+        const url = URL.createObjectURL(video);
+        setSrc(url);
+        return () => URL.revokeObjectURL(url);
+    }, [video]);
+
+    if (!src) return null;
+    return (
+        <video
+            src={src}
+            controls
+            className={`rounded-lg bg-black ${aspectRatio === '9:16' ? 'max-h-96 mx-auto' : 'w-full'}`}
+        />
+    );
+};
+
+/** Every video request with its state and elapsed time; finished ones play inline. */
+const VideoJobsPanel: React.FC = () => {
+    const [jobs, setJobs] = useState<VideoJob[]>([]);
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => videoJobs.subscribeToVideoJobs(setJobs), []);
+
+    const hasActive = jobs.some(videoJobs.isActive);
+    useEffect(() => {
+        if (!hasActive) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [hasActive]);
+
+    const remove = (job: VideoJob) => {
+        if (job.status === 'succeeded' && !window.confirm('Delete this video?')) return;
+        videoJobs.removeVideoJob(job.id).catch(error => console.error("Failed to delete video job:", error));
+    };
+
+    if (jobs.length === 0) {
+        return (
+            <div className="text-center py-16 text-slate-500 dark:text-slate-400">
+                <VideoIcon className="w-10 h-10 mx-auto mb-3" />
+                <p className="font-semibold text-slate-700 dark:text-slate-300">No videos yet</p>
+                <p className="text-sm">Videos take a few minutes. They keep generating while you use the rest of the app.</p>
+            </div>
+        );
+    }
+
+    return (
+        <ul className="space-y-4">
+            {jobs.map(job => (
+                <li key={job.id} className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl p-4 space-y-3">
+                    <div className="flex items-start gap-3">
+                        {job.sourceImage && <img src={job.sourceImage} alt="" className="w-16 h-16 rounded-lg object-cover flex-shrink-0" />}
+                        <div className="flex-1 min-w-0">
+                            <p className="font-semibold line-clamp-2">{job.prompt}</p>
+                            <div className="flex items-center gap-2 mt-1 text-xs text-slate-500 dark:text-slate-400">
+                                <span className={`px-2 py-0.5 rounded-full font-semibold ${STATUS_CLASSES[job.status]}`}>{STATUS_LABELS[job.status]}</span>
+                                <span>{job.aspectRatio}</span>
+                                <span>·</span>
+                                <span>{formatElapsed(videoJobs.elapsedMs(job, now))}</span>
+                            </div>
+                            {job.error && <p className="text-sm text-red-600 mt-1">{job.error}</p>}
+                        </div>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                            {videoJobs.isActive(job) && (
+                                <button onClick={() => videoJobs.cancelVideoJob(job.id)} className={pillClassName}>Cancel</button>
+                            )}
+                            {(job.status === 'failed' || job.status === 'cancelled') && (
+                                <button onClick={() => videoJobs.retryVideoJob(job)} className={pillClassName}>Try again</button>
+                            )}
+                            {job.video && (
+                                <button onClick={() => videoJobs.downloadVideo(job)} className={pillClassName}>Download</button>
+                            )}
+                            {!videoJobs.isActive(job) && (
+                                <button
+                                    onClick={() => remove(job)}
+                                    aria-label="Delete video"
+                                    className="p-1.5 rounded-full text-slate-500 hover:text-red-600 hover:bg-slate-100 dark:hover:bg-slate-800"
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                    {job.video && <VideoPlayer video={job.video} aspectRatio={job.aspectRatio} />}
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+export default VideoJobsPanel;
@@ -0,0 +1,69 @@
+import React, { useEffect } from 'react';
+import { YouTubeVideo } from '../types';
+import { embedUrl, watchUrl } from '../services/youtube';
+import SaveButton from './SaveButton';
+import { CloseIcon, TripsIcon } from './icons';
+
+interface VideoPlayerModalProps {
+    video: YouTubeVideo;
+    onClose: () => void;
+    onPlanTrip?: (video: YouTubeVideo) => void;
+}
+
+/** Plays a YouTube video in an embedded player over the page. */
+const VideoPlayerModal: React.FC<VideoPlayerModalProps> = ({ video, onClose, onPlanTrip }) => {
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    return (
+        <div className="fixed inset-0 z-40 flex items-center justify-center p-6 bg-black/70" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-label={video.title}
+                onClick={(e) => e.stopPropagation()}
+                className="w-full max-w-4xl bg-white dark:bg-slate-900 rounded-2xl shadow-lg overflow-hidden text-slate-900 dark:text-slate-200"
+            >
+                <div className="aspect-video bg-black">
+                    <iframe
+                        src={embedUrl(video.videoId)}
+                        title={video.title}
+                        allow="autoplay; encrypted-media; picture-in-picture; fullscreen"
+                        allowFullScreen
+                        className="w-full h-full"
+                    />
+                </div>
+                <div className="flex items-start justify-between gap-4 p-5">
+                    <div className="min-w-0">
+                        <h2 className="text-lg font-bold line-clamp-2">{video.title}</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">{video.channelTitle}</p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                        <SaveButton data={{ kind: 'video', video }} variant="inline" />
+                        {onPlanTrip && (
+                            <button
+                                onClick={() => onPlanTrip(video)}
+                                className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500"
+                            >
+                                <TripsIcon className="w-4 h-4" />
+                                Plan trip
+                            </button>
+                        )}
+                        <a href={watchUrl(video.videoId)} target="_blank" rel="noopener noreferrer" className="px-3 py-1.5 text-sm font-semibold text-sky-600 hover:underline">
+                            Open on YouTube
+                        </a>
+                        <button onClick={onClose} aria-label="Close" className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">
+                            <CloseIcon className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default VideoPlayerModal;
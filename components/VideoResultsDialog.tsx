@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { YouTubeVideo } from '../types';
+import { checkVideos, searchYouTubeVideoPage, YouTubeSearchPage } from '../services/youtube';
+import SaveButton from './SaveButton';
+import { CloseIcon, VideoIcon } from './icons';
+
+interface VideoResultsDialogProps {
+    title: string;
+    query: string;
+    /** The page the carousel already shows, so the dialog opens without a fetch. */
+    firstPage: YouTubeSearchPage;
+    onPlay: (video: YouTubeVideo) => void;
+    onClose: () => void;
+}
+
+/** Every video for a carousel's search, a page at a time. */
+const VideoResultsDialog: React.FC<VideoResultsDialogProps> = ({ title, query, firstPage, onPlay, onClose }) => {
+    const [videos, setVideos] = useState(firstPage.videos);
+    const [nextPageToken, setNextPageToken] = useState(firstPage.nextPageToken);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadMore = async () => {
+        if (!nextPageToken || isLoading) return;
+        setIsLoading(true);
+        setError(null);
+        try {
+            const page = await searchYouTubeVideoPage(query, nextPageToken);
+            const checked = await checkVideos(page.videos);
+            setVideos(prev => [...prev, ...checked.filter(video => !prev.some(v => v.videoId === video.videoId))]);
+            setNextPageToken(page.nextPageToken);
+        } catch (loadError) {
+            console.error("Failed to load more videos:", loadError);
+            setError("Couldn't load more videos. Please try again.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-30 flex items-center justify-center p-6 bg-black/50" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-label={title}
+                onClick={(e) => e.stopPropagation()}
+                className="w-full max-w-5xl max-h-full overflow-y-auto p-6 space-y-5 bg-white dark:bg-slate-900 rounded-2xl shadow-lg text-slate-900 dark:text-slate-200"
+            >
+                <div className="flex items-start justify-between gap-4">
+                    <h2 className="text-xl font-bold">{title}</h2>
+                    <button onClick={onClose} aria-label="Close" className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">
+                        <CloseIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {videos.map(video => (
+                        <div key={video.videoId} className="relative">
+                            <button onClick={() => onPlay(video)} className="block w-full text-left group">
+                                <div className="relative aspect-video rounded-xl overflow-hidden bg-slate-200 dark:bg-slate-800">
+                                    <img src={video.thumbnailUrl} alt={video.title} className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105" />
+                                    <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-12 h-12 bg-black/50 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                                        <VideoIcon className="w-6 h-6 text-white" />
+                                    </div>
+                                </div>
+                                <p className="mt-2 font-semibold line-clamp-2">{video.title}</p>
+                                <p className="text-sm text-slate-500 dark:text-slate-400">{video.channelTitle}</p>
+                            </button>
+                            <SaveButton data={{ kind: 'video', video }} className="absolute top-2 left-2" />
+                        </div>
+                    ))}
+                </div>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                {nextPageToken && (
+                    <div className="text-center">
+                        <button
+                            onClick={loadMore}
+                            disabled={isLoading}
+                            className="px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500 disabled:opacity-50"
+                        >
+                            {isLoading ? 'Loading…' : 'Load more'}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default VideoResultsDialog;
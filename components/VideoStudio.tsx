@@ -0,0 +1,130 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { VideoAspectRatio } from '../types';
+import * as videoJobs from '../services/videoJobs';
+import { readFileAsDataUrl } from '../services/images';
+import VideoJobsPanel from './VideoJobsPanel';
+import { CloseIcon, VideoIcon } from './icons';
+
+const VIDEO_ASPECT_RATIOS: VideoAspectRatio[] = ['16:9', '9:16'];
+
+const inputClassName = "w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-500";
+
+interface VideoStudioProps {
+    /** A data URL to animate, e.g. handed over from the image workspace. */
+    startImage?: string | null;
+}
+
+/** Request form for Veo videos, from a prompt alone or a prompt plus a starting image. */
+const VideoStudio: React.FC<VideoStudioProps> = ({ startImage }) => {
+    const [prompt, setPrompt] = useState('');
+    const [aspectRatio, setAspectRatio] = useState<VideoAspectRatio>('16:9');
+    const [sourceImage, setSourceImage] = useState<string | null>(startImage ?? null);
+    const [isQueueing, setIsQueueing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (startImage) setSourceImage(startImage);
+    }, [startImage]);
+
+    const upload = async (file: File | undefined) => {
+        if (!file) return;
+        setError(null);
+        try {
+            setSourceImage(await readFileAsDataUrl(file));
+        } catch (uploadError) {
+            console.error("Failed to read image:", uploadError);
+            setError("Couldn't read that file.");
+        } finally {
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        }
+    };
+
+    const queue = async () => {
+        if (!prompt.trim() || isQueueing) return;
+        setIsQueueing(true);
+        setError(null);
+        try {
+            await videoJobs.enqueueVideoJob({ prompt: prompt.trim(), aspectRatio, sourceImage: sourceImage ?? undefined });
+            setPrompt('');
+            setSourceImage(null);
+        } catch (queueError) {
+            console.error("Failed to queue video:", queueError);
+            setError("Couldn't queue that video. Please try again.");
+        } finally {
+            setIsQueueing(false);
+        }
+    };
+
+    return (
+        <div className="space-y-8">
+            <section className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl p-5 space-y-4">
+                <div className="flex gap-4">
+                    {sourceImage && (
+                        <div className="relative flex-shrink-0">
+                            <img src={sourceImage} alt="Starting frame" className="w-28 h-28 rounded-lg object-cover" />
+                            <button
+                                onClick={() => setSourceImage(null)}
+                                aria-label="Remove starting image"
+                                className="absolute top-1 right-1 p-1 rounded-full bg-black/50 text-white hover:bg-black/70"
+                            >
+                                <CloseIcon className="w-3 h-3" />
+                            </button>
+                        </div>
+                    )}
+                    <textarea
+                        value={prompt}
+                        onChange={(e) => setPrompt(e.target.value)}
+                        placeholder={sourceImage
+                            ? "Describe how the image should move, e.g. 'slow pan across the harbour as the fog lifts'"
+                            : "Describe a travel clip, e.g. 'Drone shot over rice terraces in Bali at sunrise'"}
+                        rows={3}
+                        className={`${inputClassName} resize-none`}
+                    />
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center gap-2">
+                        {VIDEO_ASPECT_RATIOS.map(ratio => (
+                            <button
+                                key={ratio}
+                                onClick={() => setAspectRatio(ratio)}
+                                className={`px-3 py-1 rounded-full text-sm font-semibold border ${
+                                    ratio === aspectRatio
+                                    ? 'bg-slate-900 text-white border-slate-900 dark:bg-slate-100 dark:text-slate-900 dark:border-slate-100'
+                                    : 'border-slate-300 dark:border-slate-700 hover:border-slate-400 dark:hover:border-slate-500'
+                                }`}
+                            >
+                                {ratio === '16:9' ? '16:9 Landscape' : '9:16 Portrait'}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={(e) => upload(e.target.files?.[0])} />
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="px-4 py-2 rounded-lg text-sm font-semibold bg-slate-100 hover:bg-slate-200 dark:bg-slate-800 dark:hover:bg-slate-700"
+                        >
+                            {sourceImage ? 'Change image' : 'Start from an image'}
+                        </button>
+                        <button
+                            onClick={queue}
+                            disabled={!prompt.trim() || isQueueing}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-sky-500 text-white hover:bg-sky-600 disabled:opacity-50"
+                        >
+                            <VideoIcon className="w-4 h-4" />
+                            Generate video
+                        </button>
+                    </div>
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </section>
+
+            <section>
+                <h2 className="text-xl font-semibold mb-4">Video requests</h2>
+                <VideoJobsPanel />
+            </section>
+        </div>
+    );
+};
+
+export default VideoStudio;
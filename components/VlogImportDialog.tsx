@@ -0,0 +1,184 @@
+import React, { useState, useRef } from 'react';
+import { Conversation, Itinerary, Trip } from '../types';
+import * as gemini from '../services/gemini';
+import * as tripStore from '../services/trips';
+import { readFileAsDataUrl } from '../services/images';
+import { ModelResponseError } from '../services/modelJson';
+import { formatTimestamp, isYouTubeUrl, MAX_UPLOAD_BYTES, startChatFromItinerary, timestampUrl } from '../services/vlogs';
+import { ChatsIcon, CloseIcon, TripsIcon, VideoIcon } from './icons';
+
+const inputClassName = "w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-sky-500";
+const actionClassName = "flex items-center gap-2 px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-full text-sm font-semibold hover:border-slate-400 dark:hover:border-slate-500 disabled:opacity-50";
+
+interface VlogImportDialogProps {
+    initialVideo?: { url: string, title: string };
+    onClose: () => void;
+    onOpenConversation: (conversation: Conversation) => void;
+    onSaved?: (trip: Trip) => void;
+}
+
+/** Turns a YouTube link or an uploaded video into an itinerary that can be opened in chat or saved. */
+const VlogImportDialog: React.FC<VlogImportDialogProps> = ({ initialVideo, onClose, onOpenConversation, onSaved }) => {
+    const [url, setUrl] = useState(initialVideo?.url ?? '');
+    const [itinerary, setItinerary] = useState<Itinerary | null>(null);
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [isSaved, setIsSaved] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const run = async (video: gemini.VideoInput) => {
+        setIsAnalyzing(true);
+        setItinerary(null);
+        setIsSaved(false);
+        setError(null);
+        try {
+            setItinerary(await gemini.itineraryFromVideo(video));
+        } catch (analyzeError) {
+            console.error("Failed to build itinerary from video:", analyzeError);
+            setError(analyzeError instanceof ModelResponseError
+                ? `${analyzeError.message} Please try again.`
+                : "Couldn't watch that video. Check the link is public and try again.");
+        } finally {
+            setIsAnalyzing(false);
+        }
+    };
+
+    const analyzeUrl = () => {
+        const trimmed = url.trim();
+        if (!isYouTubeUrl(trimmed)) {
+            setError("Paste a YouTube link, e.g. https://www.youtube.com/watch?v=…");
+            return;
+        }
+        run({ kind: 'youtube', url: trimmed, title: trimmed === initialVideo?.url ? initialVideo.title : undefined });
+    };
+
+    const upload = async (file: File | undefined) => {
+        if (!file) return;
+        if (fileInputRef.current) fileInputRef.current.value = '';
+        if (file.size > MAX_UPLOAD_BYTES) {
+            setError(`That video is too large. Upload one under ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB, or use a YouTube link.`);
+            return;
+        }
+        try {
+            const dataUrl = await readFileAsDataUrl(file);
+            await run({ kind: 'file', base64: dataUrl.split(',')[1], mimeType: file.type || 'video/mp4', name: file.name.replace(/\.[^.]+$/, '') });
+        } catch (uploadError) {
+            console.error("Failed to read video:", uploadError);
+            setError("Couldn't read that file.");
+        }
+    };
+
+    const openInChat = async () => {
+        if (!itinerary) return;
+        try {
+            onOpenConversation(await startChatFromItinerary(itinerary));
+            onClose();
+        } catch (chatError) {
+            console.error("Failed to open itinerary in chat:", chatError);
+            setError("Couldn't open a chat for this itinerary.");
+        }
+    };
+
+    const save = async () => {
+        if (!itinerary || isSaved) return;
+        try {
+            const trip = await tripStore.createTrip(itinerary);
+            setIsSaved(true);
+            onSaved?.(trip);
+        } catch (saveError) {
+            console.error("Failed to save trip:", saveError);
+            setError("Couldn't save this trip. Please try again.");
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-30 flex items-center justify-center p-6 bg-black/50" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-label="Plan a trip from a video"
+                onClick={(e) => e.stopPropagation()}
+                className="w-full max-w-2xl max-h-full overflow-y-auto p-6 space-y-5 bg-white dark:bg-slate-900 rounded-2xl shadow-lg text-slate-900 dark:text-slate-200"
+            >
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h2 className="text-xl font-bold">Plan a trip from a video</h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">The places, order and tips from a travel vlog, linked back to the moment they appear.</p>
+                    </div>
+                    <button onClick={onClose} aria-label="Close" className="text-slate-400 hover:text-slate-700 dark:hover:text-slate-200">
+                        <CloseIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <form className="flex gap-2" onSubmit={(e) => { e.preventDefault(); analyzeUrl(); }}>
+                    <input value={url} onChange={(e) => setUrl(e.target.value)} placeholder="YouTube link" className={inputClassName} />
+                    <button
+                        type="submit"
+                        disabled={!url.trim() || isAnalyzing}
+                        className="px-4 py-2 rounded-lg text-sm font-semibold bg-sky-500 text-white hover:bg-sky-600 disabled:opacity-50 flex-shrink-0"
+                    >
+                        {isAnalyzing ? 'Watching…' : 'Plan trip'}
+                    </button>
+                </form>
+                <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+                    <span>or</span>
+                    <input ref={fileInputRef} type="file" accept="video/*" className="hidden" onChange={(e) => upload(e.target.files?.[0])} />
+                    <button onClick={() => fileInputRef.current?.click()} disabled={isAnalyzing} className="font-semibold text-sky-600 hover:underline disabled:opacity-50">
+                        upload a video
+                    </button>
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                {isAnalyzing && <p className="text-sm text-sky-600 animate-pulse">Watching the video. Longer videos can take a minute…</p>}
+
+                {itinerary && (
+                    <div className="space-y-4 pt-4 border-t border-slate-200 dark:border-slate-800">
+                        <div className="flex flex-wrap items-start justify-between gap-3">
+                            <div>
+                                <h3 className="text-lg font-bold">{itinerary.destination}</h3>
+                                <p className="text-sm text-slate-500 dark:text-slate-400">{[itinerary.duration, itinerary.budget].filter(Boolean).join(' • ')}</p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <button onClick={openInChat} className={actionClassName}>
+                                    <ChatsIcon className="w-4 h-4" />
+                                    Open in chat
+                                </button>
+                                <button onClick={save} disabled={isSaved} className={actionClassName}>
+                                    <TripsIcon className="w-4 h-4" />
+                                    {isSaved ? 'Saved to Trips' : 'Save to Trips'}
+                                </button>
+                            </div>
+                        </div>
+                        {itinerary.itinerary.map(day => (
+                            <div key={day.day}>
+                                <p className="font-semibold">Day {day.day}: {day.title}</p>
+                                <ul className="mt-2 space-y-2">
+                                    {day.activities.map((activity, index) => {
+                                        const href = activity.videoTimestamp !== undefined ? timestampUrl(itinerary.sourceVideo, activity.videoTimestamp) : undefined;
+                                        return (
+                                            <li key={index} className="flex items-start gap-3 text-sm">
+                                                {activity.videoTimestamp !== undefined && (
+                                                    href ? (
+                                                        <a href={href} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 font-semibold text-sky-600 hover:underline flex-shrink-0 w-16">
+                                                            <VideoIcon className="w-3.5 h-3.5" />{formatTimestamp(activity.videoTimestamp)}
+                                                        </a>
+                                                    ) : (
+                                                        <span className="font-semibold text-slate-500 flex-shrink-0 w-16">{formatTimestamp(activity.videoTimestamp)}</span>
+                                                    )
+                                                )}
+                                                <div>
+                                                    {activity.placeName && <p className="font-semibold">{activity.placeName}</p>}
+                                                    <p className="text-slate-600 dark:text-slate-400">{activity.description}</p>
+                                                </div>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default VlogImportDialog;
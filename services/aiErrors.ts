@@ -0,0 +1,106 @@
+import { ModelResponseError } from './modelJson';
+import { FixtureNotFoundError } from './providers/fixtureProvider';
+
+// What can go wrong with an AI call, in terms the UI can act on. Providers
+// throw AIRequestError (see services/providers/requestPolicy.ts, which turns
+// raw SDK and network errors into one); answers that arrive but cannot be used
+// are a ModelResponseError from services/modelJson.ts.
+
+export type AIErrorKind = 'quota' | 'auth' | 'safety' | 'network' | 'timeout' | 'unknown';
+
+/** Rate limits that clear within this long are waited out; longer ones are reported. */
+const MAX_RETRY_AFTER_MS = 30 * 1000;
+
+export class AIRequestError extends Error {
+    constructor(
+        message: string,
+        public readonly kind: AIErrorKind,
+        public readonly status?: number,
+        /** How long the API asked callers to wait before trying again. */
+        public readonly retryAfterMs?: number,
+    ) {
+        super(message);
+        this.name = 'AIRequestError';
+    }
+
+    /** Whether trying the same request again soon may succeed. */
+    get retryable(): boolean {
+        switch (this.kind) {
+            case 'network': return true;
+            case 'quota': return this.retryAfterMs === undefined || this.retryAfterMs <= MAX_RETRY_AFTER_MS;
+            case 'unknown': return this.status !== undefined && this.status >= 500;
+            default: return false;
+        }
+    }
+}
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// The API reports a suggested wait as `"retryDelay": "36s"` inside the error body.
+function retryDelayMs(message: string): number | undefined {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+function statusOf(error: unknown): number | undefined {
+    const status = (error as { status?: unknown })?.status;
+    if (typeof status === 'number') return status;
+    const match = error instanceof Error ? error.message.match(/got status: (\d{3})/) : null;
+    return match ? parseInt(match[1], 10) : undefined;
+}
+
+/** Classifies an error thrown by the SDK, fetch or a provider. */
+export function toAIRequestError(error: unknown): AIRequestError {
+    if (error instanceof AIRequestError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    const status = statusOf(error);
+
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+        return new AIRequestError(message, 'quota', status ?? 429, retryDelayMs(message));
+    }
+    if (status === 401 || status === 403 || /API[_ ]KEY[_ ]INVALID|API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+        return new AIRequestError(message, 'auth', status);
+    }
+    if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+        return new AIRequestError(message, 'network');
+    }
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+        return new AIRequestError(message, 'network');
+    }
+    return new AIRequestError(message, 'unknown', status);
+}
+
+/** Whether offering "Try again" makes sense for this error. */
+export function canRetry(error: unknown): boolean {
+    if (error instanceof ModelResponseError) return true;
+    if (error instanceof FixtureNotFoundError) return false;
+    const { kind } = toAIRequestError(error);
+    return kind !== 'auth' && kind !== 'safety';
+}
+
+/**
+ * A message for the UI that says what went wrong and what to do about it.
+ * `task` completes "Couldn't …", e.g. 'load nearby places'.
+ */
+export function describeAIError(error: unknown, task: string): string {
+    if (error instanceof ModelResponseError) return `${error.message} Please try again.`;
+    // Replaying fixtures offline: say which recording is missing.
+    if (error instanceof FixtureNotFoundError) return `Couldn't ${task}: no fixture is recorded for "${error.purpose}".`;
+    const failure = toAIRequestError(error);
+    switch (failure.kind) {
+        case 'quota':
+            return failure.retryable
+                ? `Couldn't ${task}: the AI service is getting too many requests. Wait a moment and try again.`
+                : `Couldn't ${task}: the API key has used up its quota. Try again later, or use a key with a higher quota.`;
+        case 'auth':
+            return `Couldn't ${task}: the Gemini API key is missing or not valid. Set GEMINI_API_KEY in .env.local and reload.`;
+        case 'safety':
+            return `Couldn't ${task}: the request was blocked by the model's safety filters. Try rephrasing it.`;
+        case 'network':
+            return `Couldn't ${task}: the AI service can't be reached. Check your connection and try again.`;
+        case 'timeout':
+            return `Couldn't ${task}: the AI service took too long to answer. Please try again.`;
+        default:
+            return `Couldn't ${task}. Please try again.`;
+    }
+}
@@ -0,0 +1,162 @@
+import { Blob } from '@google/genai';
+
+// Audio plumbing for the Live API: it takes 16 kHz 16-bit mono PCM in and
+// sends 24 kHz 16-bit mono PCM back, both base64 encoded. Text-to-speech
+// returns audio in the same 24 kHz format.
+
+export const INPUT_SAMPLE_RATE = 16000;
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+export function encodeBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+    return btoa(binary);
+}
+
+export function decodeBase64(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+// Averages source samples into each output sample, which is enough filtering
+// for speech going from 44.1/48 kHz down to 16 kHz.
+function downsample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+    if (fromRate === toRate) return samples;
+    const ratio = fromRate / toRate;
+    const result = new Float32Array(Math.floor(samples.length / ratio));
+    for (let i = 0; i < result.length; i++) {
+        const start = Math.floor(i * ratio);
+        const end = Math.min(samples.length, Math.floor((i + 1) * ratio));
+        let sum = 0;
+        for (let j = start; j < end; j++) sum += samples[j];
+        result[i] = sum / Math.max(1, end - start);
+    }
+    return result;
+}
+
+/** Converts microphone samples into the PCM blob `sendRealtimeInput` expects. */
+export function createPcmBlob(samples: Float32Array, sampleRate: number): Blob {
+    const resampled = downsample(samples, sampleRate, INPUT_SAMPLE_RATE);
+    const pcm = new Int16Array(resampled.length);
+    for (let i = 0; i < resampled.length; i++) {
+        const clamped = Math.max(-1, Math.min(1, resampled[i]));
+        pcm[i] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    }
+    return {
+        data: encodeBase64(new Uint8Array(pcm.buffer)),
+        mimeType: `audio/pcm;rate=${INPUT_SAMPLE_RATE}`,
+    };
+}
+
+/** Decodes raw 16-bit PCM into an AudioBuffer; `decodeAudioData` only reads containers. */
+export function decodePcm(bytes: Uint8Array, context: AudioContext, sampleRate = OUTPUT_SAMPLE_RATE, channels = 1): AudioBuffer {
+    const pcm = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+    const frames = Math.floor(pcm.length / channels);
+    const buffer = context.createBuffer(channels, frames, sampleRate);
+    for (let channel = 0; channel < channels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < frames; i++) data[i] = pcm[i * channels + channel] / 0x8000;
+    }
+    return buffer;
+}
+
+/** Wraps raw 16-bit mono PCM in a WAV header so it can be saved and played anywhere. */
+export function encodeWav(chunks: Uint8Array[], sampleRate = OUTPUT_SAMPLE_RATE): Uint8Array {
+    const dataLength = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+    const wav = new Uint8Array(44 + dataLength);
+    const view = new DataView(wav.buffer);
+    const writeString = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataLength, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, dataLength, true);
+    let offset = 44;
+    for (const chunk of chunks) {
+        wav.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return wav;
+}
+
+export interface MicrophoneCapture {
+    stop: () => void;
+}
+
+/**
+ * Streams microphone audio to `onChunk` as 16 kHz PCM blobs. Rejects when the
+ * user denies microphone access.
+ */
+export async function startMicrophone(onChunk: (blob: Blob) => void): Promise<MicrophoneCapture> {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    // ScriptProcessorNode is deprecated but needs no separate worklet module,
+    // and its latency is small next to the network round trip.
+    const processor = context.createScriptProcessor(4096, 1, 1);
+    processor.onaudioprocess = event => {
+        onChunk(createPcmBlob(event.inputBuffer.getChannelData(0), context.sampleRate));
+    };
+    source.connect(processor);
+    processor.connect(context.destination);
+
+    return {
+        stop: () => {
+            processor.onaudioprocess = null;
+            processor.disconnect();
+            source.disconnect();
+            stream.getTracks().forEach(track => track.stop());
+            context.close();
+        },
+    };
+}
+
+export interface PlaybackQueue {
+    /** Schedules a base64 PCM chunk to start exactly when the previous one ends. */
+    enqueue: (base64Pcm: string) => void;
+    /** Stops everything playing or scheduled, e.g. when the user talks over the model. */
+    interrupt: () => void;
+    close: () => void;
+}
+
+export function createPlaybackQueue(sampleRate = OUTPUT_SAMPLE_RATE): PlaybackQueue {
+    const context = new AudioContext({ sampleRate });
+    const sources = new Set<AudioBufferSourceNode>();
+    let nextStartTime = 0;
+
+    return {
+        enqueue: base64Pcm => {
+            const buffer = decodePcm(decodeBase64(base64Pcm), context, sampleRate);
+            const source = context.createBufferSource();
+            source.buffer = buffer;
+            source.connect(context.destination);
+            source.onended = () => sources.delete(source);
+            nextStartTime = Math.max(nextStartTime, context.currentTime);
+            source.start(nextStartTime);
+            nextStartTime += buffer.duration;
+            sources.add(source);
+        },
+        interrupt: () => {
+            sources.forEach(source => source.stop());
+            sources.clear();
+            nextStartTime = 0;
+        },
+        close: () => {
+            sources.forEach(source => source.stop());
+            sources.clear();
+            context.close();
+        },
+    };
+}
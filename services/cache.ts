@@ -0,0 +1,117 @@
+import * as db from './db';
+
+// A stale-while-revalidate cache for slow, billed lookups. Results are kept in
+// memory and in IndexedDB, so they survive both a view switch and a reload.
+// A fresh entry is returned as is. A stale one is returned straight away and
+// refreshed in the background, and the caller hears about the new value through
+// `onRefresh`. Concurrent calls with the same arguments share one request.
+
+export interface CachePolicy<A extends unknown[]> {
+    /** Names the lookup in keys and in the stats. */
+    name: string;
+    /** Entries younger than this are served without a refresh. */
+    freshForMs: number;
+    /** Older entries are still served, and refreshed, until they reach this age. */
+    staleForMs: number;
+    /** Builds the key from already normalized arguments. Defaults to their JSON. */
+    key?: (...args: A) => string;
+}
+
+export interface CacheStats {
+    hits: number;
+    staleHits: number;
+    misses: number;
+    errors: number;
+}
+
+export type CachedLookup<A extends unknown[], R> = (args: A, onRefresh?: (value: R) => void) => Promise<R>;
+
+interface CacheEntry {
+    id: string; // `${name}:${key}`
+    name: string;
+    value: unknown;
+    storedAt: number;
+}
+
+type StatsListener = (stats: Record<string, CacheStats>) => void;
+
+const memory = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+let stats: Record<string, CacheStats> = {};
+const listeners = new Set<StatsListener>();
+
+function count(name: string, field: keyof CacheStats) {
+    const current = stats[name] ?? { hits: 0, staleHits: 0, misses: 0, errors: 0 };
+    stats = { ...stats, [name]: { ...current, [field]: current[field] + 1 } };
+    listeners.forEach(listener => listener(stats));
+}
+
+async function readEntry(id: string): Promise<CacheEntry | undefined> {
+    const inMemory = memory.get(id);
+    if (inMemory) return inMemory;
+    const stored = await db.getOne<CacheEntry>(db.STORES.cache, id).catch(error => {
+        console.error("Failed to read cache:", error);
+        return undefined;
+    });
+    if (stored) memory.set(id, stored);
+    return stored;
+}
+
+/** Wraps `fn` in the cache. Errors are never cached; a failed refresh keeps the stale value. */
+export function cached<A extends unknown[], R>(policy: CachePolicy<A>, fn: (...args: A) => Promise<R>): CachedLookup<A, R> {
+    const keyOf = policy.key ?? ((...args: A) => JSON.stringify(args));
+
+    const fetchAndStore = (id: string, args: A): Promise<R> => {
+        const pending = inFlight.get(id);
+        if (pending) return pending as Promise<R>;
+        const request = fn(...args).then(value => {
+            const entry: CacheEntry = { id, name: policy.name, value, storedAt: Date.now() };
+            memory.set(id, entry);
+            db.put(db.STORES.cache, entry).catch(error => console.error("Failed to write cache:", error));
+            return value;
+        }).catch(error => {
+            count(policy.name, 'errors');
+            throw error;
+        }).finally(() => inFlight.delete(id));
+        inFlight.set(id, request);
+        return request;
+    };
+
+    return async (args, onRefresh) => {
+        const id = `${policy.name}:${keyOf(...args)}`;
+        const entry = await readEntry(id);
+        const age = entry ? Date.now() - entry.storedAt : Infinity;
+        if (entry && age < policy.freshForMs) {
+            count(policy.name, 'hits');
+            return entry.value as R;
+        }
+        if (entry && age < policy.staleForMs) {
+            count(policy.name, 'staleHits');
+            fetchAndStore(id, args)
+                .then(value => onRefresh?.(value))
+                .catch(error => console.warn(`Background refresh of ${policy.name} failed:`, error));
+            return entry.value as R;
+        }
+        count(policy.name, 'misses');
+        return fetchAndStore(id, args);
+    };
+}
+
+/** Drops every cached result. Requests already running still complete and are stored. */
+export async function clearCache(): Promise<void> {
+    memory.clear();
+    await db.clear(db.STORES.cache);
+}
+
+export function resetCacheStats(): void {
+    stats = {};
+    listeners.forEach(listener => listener(stats));
+}
+
+export function subscribeToCacheStats(listener: StatsListener): () => void {
+    listeners.add(listener);
+    listener(stats);
+    return () => {
+        listeners.delete(listener);
+    };
+}
@@ -0,0 +1,88 @@
+import { ContentType, Itinerary, StructuredContent } from '../types';
+import { parsePartialJson } from './partialJson';
+import { string, Validator, withDefault } from './validation';
+import { dayValidator, itineraryValidator } from './validators';
+
+export interface ChatResponseSnapshot {
+    content: StructuredContent;
+    contentType: ContentType;
+}
+
+const textField = withDefault(string(), '');
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+/** A string field of a partial response, or '' while it is missing. */
+function readText(value: unknown): string {
+    const result = textField(value, '');
+    return result.ok ? result.value : '';
+}
+
+/**
+ * Turns the raw JSON text of a chat response that is still streaming into
+ * whatever can be shown so far: the text typed out as it arrives, or an
+ * itinerary containing only the days that have been fully received. Returns
+ * null when nothing displayable has arrived yet. The finished response goes
+ * through `chatResponseValidator` instead.
+ */
+export function readChatResponse(text: string): ChatResponseSnapshot | null {
+    const { value, isClosed } = parsePartialJson(text);
+    const { contentType, itineraryPayload, textPayload } = asRecord(value) ?? {};
+
+    const wantsItinerary = contentType === 'itinerary' || (!contentType && itineraryPayload);
+    const payload = asRecord(itineraryPayload);
+    if (wantsItinerary && payload) {
+        // Only days that have been fully received, and that hold up as days.
+        const days = Array.isArray(payload.itinerary)
+            ? payload.itinerary.filter(isClosed).flatMap(day => {
+                const result = dayValidator(day, 'day');
+                return result.ok ? [result.value] : [];
+            })
+            : [];
+        const itinerary: Itinerary = {
+            destination: readText(payload.destination),
+            duration: readText(payload.duration),
+            budget: readText(payload.budget),
+            itinerary: days,
+        };
+        if (!itinerary.destination && days.length === 0) return null;
+        return { content: itinerary, contentType: 'itinerary' };
+    }
+
+    if (typeof textPayload === 'string' && textPayload) {
+        return { content: textPayload, contentType: 'text' };
+    }
+
+    return null;
+}
+
+/** True once a streaming response has flagged that it should be answered from web sources. */
+export function requestsSources(text: string): boolean {
+    const { value } = parsePartialJson(text);
+    return asRecord(value)?.needsSources === true;
+}
+
+/**
+ * Checks a complete chat response. The payload matching `contentType` must be
+ * present; when `contentType` is missing it is inferred from the payload.
+ */
+export const chatResponseValidator: Validator<ChatResponseSnapshot> = (input, path) => {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return { ok: false, issues: ['value: expected an object with contentType and a payload'] };
+    }
+    const { contentType, itineraryPayload, textPayload } = input as Record<string, unknown>;
+    const wantsItinerary = contentType === 'itinerary' || (contentType !== 'text' && !!itineraryPayload);
+
+    if (wantsItinerary) {
+        const result = itineraryValidator(itineraryPayload, path ? `${path}.itineraryPayload` : 'itineraryPayload');
+        return result.ok === false
+            ? result
+            : { ok: true, value: { content: result.value, contentType: 'itinerary' }, warnings: result.warnings };
+    }
+    if (typeof textPayload === 'string' && textPayload.trim()) {
+        return { ok: true, value: { content: textPayload, contentType: 'text' }, warnings: [] };
+    }
+    return { ok: false, issues: ['textPayload: expected a non-empty string when contentType is "text"'] };
+};
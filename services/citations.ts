@@ -0,0 +1,63 @@
+import { GroundingChunk, GroundingSupport } from '@google/genai';
+
+export interface Source {
+    number: number;
+    title: string;
+    url: string;
+}
+
+export interface CitedSegment {
+    text: string;
+    /** Source numbers to show after this segment; empty when it cites nothing. */
+    citations: number[];
+}
+
+/** Web sources in the order the model returned them, numbered from 1. */
+export function groundingSources(chunks: GroundingChunk[] = []): Source[] {
+    return chunks.flatMap((chunk, index) => chunk.web?.uri
+        ? [{ number: index + 1, title: chunk.web.title || chunk.web.domain || chunk.web.uri, url: chunk.web.uri }]
+        : []);
+}
+
+// Grounding segments are measured in UTF-8 bytes; strings index UTF-16 units.
+function byteToCharOffsets(text: string): Map<number, number> {
+    const offsets = new Map<number, number>([[0, 0]]);
+    const encoder = new TextEncoder();
+    let bytes = 0;
+    let chars = 0;
+    for (const char of text) {
+        bytes += encoder.encode(char).length;
+        chars += char.length;
+        offsets.set(bytes, chars);
+    }
+    return offsets;
+}
+
+/**
+ * Splits a grounded answer into segments that each end where a supported
+ * claim ends, carrying the numbers of the sources backing that claim.
+ */
+export function splitCitedText(text: string, supports: GroundingSupport[] = [], chunks: GroundingChunk[] = []): CitedSegment[] {
+    const offsets = byteToCharOffsets(text);
+    const citedNumbers = new Set(groundingSources(chunks).map(source => source.number));
+    const markers = new Map<number, Set<number>>();
+
+    for (const support of supports) {
+        const end = offsets.get(support.segment?.endIndex ?? -1);
+        if (end === undefined) continue;
+        const numbers = (support.groundingChunkIndices ?? []).map(i => i + 1).filter(n => citedNumbers.has(n));
+        if (numbers.length === 0) continue;
+        const existing = markers.get(end) ?? new Set<number>();
+        numbers.forEach(n => existing.add(n));
+        markers.set(end, existing);
+    }
+
+    const segments: CitedSegment[] = [];
+    let start = 0;
+    for (const end of [...markers.keys()].sort((a, b) => a - b)) {
+        segments.push({ text: text.slice(start, end), citations: [...markers.get(end)!].sort((a, b) => a - b) });
+        start = end;
+    }
+    if (start < text.length) segments.push({ text: text.slice(start), citations: [] });
+    return segments;
+}
@@ -0,0 +1,77 @@
+import { ChatMessage, Conversation } from '../types';
+import * as db from './db';
+
+const MAX_TITLE_LENGTH = 60;
+
+export function titleFromMessage(text: string): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > MAX_TITLE_LENGTH ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1)}…` : singleLine;
+}
+
+export async function listConversations(): Promise<Conversation[]> {
+    const conversations = await db.getAll<Conversation>(db.STORES.conversations);
+    return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function getConversation(id: string): Promise<Conversation | undefined> {
+    return db.getOne<Conversation>(db.STORES.conversations, id);
+}
+
+export function createConversation(messages: ChatMessage[]): Conversation {
+    const firstUserMessage = messages.find(m => m.role === 'user' && typeof m.content === 'string');
+    const now = Date.now();
+    return {
+        id: crypto.randomUUID(),
+        title: firstUserMessage ? titleFromMessage(firstUserMessage.content as string) : 'New chat',
+        createdAt: now,
+        updatedAt: now,
+        messages,
+    };
+}
+
+export async function saveConversation(conversation: Conversation): Promise<void> {
+    await db.put(db.STORES.conversations, conversation);
+}
+
+/**
+ * Stores the messages of a thread, creating the conversation on first save
+ * with the given settings. The stored record is re-read so a rename made
+ * elsewhere is not overwritten.
+ */
+export async function saveMessages(id: string | null, messages: ChatMessage[], settings: Pick<Conversation, 'groundingEnabled' | 'tripContext'> = {}): Promise<Conversation> {
+    const existing = id ? await getConversation(id) : undefined;
+    const conversation = existing
+        ? { ...existing, messages, updatedAt: Date.now() }
+        : { ...createConversation(messages), ...settings, ...(id ? { id } : {}) };
+    await saveConversation(conversation);
+    return conversation;
+}
+
+export async function renameConversation(id: string, title: string): Promise<void> {
+    const conversation = await getConversation(id);
+    if (!conversation) return;
+    await saveConversation({ ...conversation, title: title.trim() || conversation.title });
+}
+
+export async function setGroundingEnabled(id: string, groundingEnabled: boolean): Promise<void> {
+    const conversation = await getConversation(id);
+    if (!conversation) return;
+    await saveConversation({ ...conversation, groundingEnabled });
+}
+
+export function deleteConversation(id: string): Promise<void> {
+    return db.remove(db.STORES.conversations, id);
+}
+
+function messageText(message: ChatMessage): string {
+    return typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+}
+
+export function searchConversations(conversations: Conversation[], query: string): Conversation[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return conversations;
+    return conversations.filter(c =>
+        c.title.toLowerCase().includes(needle) ||
+        c.messages.some(m => messageText(m).toLowerCase().includes(needle))
+    );
+}
@@ -0,0 +1,133 @@
+import { BudgetTier, TripCriteria } from '../types';
+
+// The Explore filter bar's state. It is kept in localStorage so it survives a
+// reload, and mirrored into the page URL so a link reproduces the same search.
+// A link's criteria win over stored ones.
+
+const STORAGE_KEY = 'travelmind.criteria';
+const BUDGET_TIERS: BudgetTier[] = ['budget', 'moderate', 'luxury'];
+export const MAX_TRAVELERS = 16;
+const PARAM_NAMES = ['where', 'lat', 'lng', 'from', 'to', 'adults', 'children', 'budget'];
+
+export const DEFAULT_CRITERIA: TripCriteria = { adults: 2, children: 0 };
+
+export const BUDGET_LABELS: Record<BudgetTier, string> = {
+    budget: 'Budget',
+    moderate: 'Mid-range',
+    luxury: 'Luxury',
+};
+
+const isDate = (value: string | null): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+function count(value: string | null, min: number, fallback: number): number {
+    const parsed = value === null ? NaN : parseInt(value, 10);
+    return Number.isFinite(parsed) ? Math.min(MAX_TRAVELERS, Math.max(min, parsed)) : fallback;
+}
+
+/** Reads criteria from URL parameters; fields that are missing or malformed fall back to the defaults. */
+export function criteriaFromSearchParams(params: URLSearchParams): TripCriteria | null {
+    if (!PARAM_NAMES.some(name => params.has(name))) return null;
+    const where = params.get('where')?.trim();
+    const lat = parseFloat(params.get('lat') ?? '');
+    const lng = parseFloat(params.get('lng') ?? '');
+    const from = params.get('from');
+    const to = params.get('to');
+    const budget = params.get('budget') as BudgetTier | null;
+    return {
+        destination: where && Number.isFinite(lat) && Number.isFinite(lng) ? { name: where, lat, lng } : undefined,
+        startDate: isDate(from) ? from : undefined,
+        endDate: isDate(to) && (!isDate(from) || to >= from) ? to : undefined,
+        adults: count(params.get('adults'), 1, DEFAULT_CRITERIA.adults),
+        children: count(params.get('children'), 0, DEFAULT_CRITERIA.children),
+        budget: budget && BUDGET_TIERS.includes(budget) ? budget : undefined,
+    };
+}
+
+export function criteriaToSearchParams(criteria: TripCriteria, base = new URLSearchParams()): URLSearchParams {
+    const params = new URLSearchParams(base);
+    PARAM_NAMES.forEach(name => params.delete(name));
+    if (criteria.destination) {
+        params.set('where', criteria.destination.name);
+        params.set('lat', criteria.destination.lat.toFixed(4));
+        params.set('lng', criteria.destination.lng.toFixed(4));
+    }
+    if (criteria.startDate) params.set('from', criteria.startDate);
+    if (criteria.endDate) params.set('to', criteria.endDate);
+    if (criteria.adults !== DEFAULT_CRITERIA.adults || criteria.children !== DEFAULT_CRITERIA.children) {
+        params.set('adults', String(criteria.adults));
+        params.set('children', String(criteria.children));
+    }
+    if (criteria.budget) params.set('budget', criteria.budget);
+    return params;
+}
+
+export function loadCriteria(): TripCriteria {
+    const fromUrl = criteriaFromSearchParams(new URLSearchParams(window.location.search));
+    if (fromUrl) return fromUrl;
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) return { ...DEFAULT_CRITERIA, ...JSON.parse(stored) };
+    } catch (error) {
+        console.error("Failed to read saved filters:", error);
+    }
+    return DEFAULT_CRITERIA;
+}
+
+export function saveCriteria(criteria: TripCriteria): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(criteria));
+    } catch (error) {
+        console.error("Failed to save filters:", error);
+    }
+    const params = criteriaToSearchParams(criteria, new URLSearchParams(window.location.search)).toString();
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${params ? `?${params}` : ''}${window.location.hash}`);
+}
+
+/** A link to the page with these criteria applied. */
+export function shareUrl(criteria: TripCriteria): string {
+    const params = criteriaToSearchParams(criteria).toString();
+    return `${window.location.origin}${window.location.pathname}${params ? `?${params}` : ''}`;
+}
+
+const formatDay = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export function dateRangeLabel(criteria: TripCriteria): string | undefined {
+    const { startDate, endDate } = criteria;
+    if (startDate && endDate) return startDate === endDate ? formatDay(startDate) : `${formatDay(startDate)} – ${formatDay(endDate)}`;
+    if (startDate) return `From ${formatDay(startDate)}`;
+    if (endDate) return `Until ${formatDay(endDate)}`;
+    return undefined;
+}
+
+export function travelersLabel(criteria: TripCriteria): string {
+    if (criteria.children === 0) return `${criteria.adults} traveler${criteria.adults === 1 ? '' : 's'}`;
+    return `${criteria.adults} adult${criteria.adults === 1 ? '' : 's'}, ${criteria.children} child${criteria.children === 1 ? '' : 'ren'}`;
+}
+
+export function hasCriteria(criteria: TripCriteria): boolean {
+    return criteriaToSearchParams(criteria).toString() !== '';
+}
+
+/** One line for the chat context chip and the model, or undefined when nothing was chosen. */
+export function criteriaSummary(criteria: TripCriteria): string | undefined {
+    if (!hasCriteria(criteria)) return undefined;
+    const dates = criteria.startDate && criteria.endDate
+        ? `${criteria.startDate} to ${criteria.endDate}`
+        : criteria.startDate ? `from ${criteria.startDate}` : criteria.endDate ? `until ${criteria.endDate}` : undefined;
+    return [
+        criteria.destination?.name,
+        dates,
+        travelersLabel(criteria),
+        criteria.budget && `${BUDGET_LABELS[criteria.budget].toLowerCase()} budget`,
+    ].filter(Boolean).join(' · ');
+}
+
+/** The query for the nearby-places carousel. */
+export function placesQuery(criteria: TripCriteria): string {
+    const parts = ['popular restaurants, hotels, attractions'];
+    if (criteria.children > 0) parts.push('good for families with children');
+    else if (criteria.adults === 1) parts.push('good for solo travelers');
+    if (criteria.budget) parts.push(`${BUDGET_LABELS[criteria.budget].toLowerCase()} prices`);
+    if (criteria.startDate) parts.push(`worth visiting in ${new Date(`${criteria.startDate}T00:00:00`).toLocaleDateString('en-US', { month: 'long' })}`);
+    return parts.join(', ');
+}
@@ -0,0 +1,77 @@
+// Minimal promise wrapper around the browser's IndexedDB. Every store is keyed
+// by an `id` property on the records it holds. Adding a store means listing it
+// in STORES and bumping DB_VERSION so the upgrade creates it.
+
+const DB_NAME = 'travelmind';
+const DB_VERSION = 8;
+
+export const STORES = {
+    conversations: 'conversations',
+    trips: 'trips',
+    destinations: 'destinations',
+    images: 'images',
+    cardCovers: 'cardCovers',
+    videoJobs: 'videoJobs',
+    speech: 'speech',
+    collections: 'collections',
+    savedItems: 'savedItems',
+    cache: 'cache',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const name of Object.values(STORES)) {
+                    if (!db.objectStoreNames.contains(name)) {
+                        db.createObjectStore(name, { keyPath: 'id' });
+                    }
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(store: StoreName, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDB();
+    return promisify(fn(db.transaction(store, mode).objectStore(store)));
+}
+
+export function getAll<T>(store: StoreName): Promise<T[]> {
+    return withStore(store, 'readonly', s => s.getAll() as IDBRequest<T[]>);
+}
+
+export function getOne<T>(store: StoreName, id: string): Promise<T | undefined> {
+    return withStore(store, 'readonly', s => s.get(id) as IDBRequest<T | undefined>);
+}
+
+export async function put<T extends { id: string }>(store: StoreName, value: T): Promise<void> {
+    await withStore(store, 'readwrite', s => s.put(value));
+}
+
+export async function remove(store: StoreName, id: string): Promise<void> {
+    await withStore(store, 'readwrite', s => s.delete(id));
+}
+
+export async function clear(store: StoreName): Promise<void> {
+    await withStore(store, 'readwrite', s => s.clear());
+}
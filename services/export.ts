@@ -0,0 +1,278 @@
+import { Activity, Itinerary } from '../types';
+import { formatMoney } from './itinerary';
+import { formatTimestamp, timestampUrl } from './vlogs';
+
+export interface TimeSlot {
+    /** Minutes after midnight. */
+    start: number;
+    durationMinutes: number;
+}
+
+const DEFAULT_DURATION_MINUTES = 90;
+
+// Checked in order, so more specific phrases must come before the words they contain.
+const NAMED_SLOTS: [RegExp, TimeSlot][] = [
+    [/early morning|sunrise|dawn/, { start: 6 * 60, durationMinutes: 120 }],
+    [/late morning/, { start: 10 * 60 + 30, durationMinutes: 90 }],
+    [/breakfast/, { start: 8 * 60, durationMinutes: 60 }],
+    [/morning/, { start: 9 * 60, durationMinutes: 180 }],
+    [/\bnoon|midday|lunch/, { start: 12 * 60, durationMinutes: 90 }],
+    [/late afternoon/, { start: 16 * 60, durationMinutes: 120 }],
+    [/afternoon/, { start: 14 * 60, durationMinutes: 180 }],
+    [/sunset|dusk/, { start: 18 * 60, durationMinutes: 60 }],
+    [/dinner/, { start: 19 * 60, durationMinutes: 120 }],
+    [/late night|midnight/, { start: 22 * 60, durationMinutes: 120 }],
+    [/evening/, { start: 18 * 60, durationMinutes: 180 }],
+    [/night/, { start: 20 * 60, durationMinutes: 180 }],
+];
+
+// One clock reading: "9", "14:00", "9.30", "14h30", "3 pm", "9:00 a.m.".
+const CLOCK = String.raw`(?<![\d:.])(\d{1,2})(?:[:.h](\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?(?![a-z\d])`;
+const CLOCK_TIME = new RegExp(CLOCK, 'g');
+// Only a range when there is a clock reading on both sides, so "Walk to the
+// fort at 3 pm" is not split at "to".
+const TIME_RANGE = new RegExp(`${CLOCK}\\s*(?:-|–|—|\\bto\\b|\\buntil\\b)\\s*${CLOCK}`);
+
+interface Clock {
+    minutes: number;
+    meridiem?: string;
+}
+
+function toClock(hoursText: string, minutesText: string | undefined, meridiemText: string | undefined, allowBareHour = false): Clock | null {
+    let hours = parseInt(hoursText, 10);
+    const minutes = minutesText ? parseInt(minutesText, 10) : 0;
+    const meridiem = meridiemText?.replace(/\./g, '');
+    // A bare number like "3" is only a time when the other end of a range gives it context.
+    if (!minutesText && !meridiem && !allowBareHour) return null;
+    if (hours > 23 || minutes > 59) return null;
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+    return { minutes: hours * 60 + minutes, meridiem };
+}
+
+// The first number that reads as a time, so "Day 2, 14:00" is 14:00 rather than 2:00.
+function parseClock(text: string): Clock | null {
+    for (const match of text.matchAll(CLOCK_TIME)) {
+        const clock = toClock(match[1], match[2], match[3]);
+        if (clock) return clock;
+    }
+    return null;
+}
+
+function toSlot(start: Clock, end?: Clock): TimeSlot {
+    let minutes = start.minutes;
+    // "2-4 PM": the start borrows the end's meridiem.
+    if (end?.meridiem === 'pm' && !start.meridiem && minutes < 12 * 60 && minutes + 12 * 60 <= end.minutes) {
+        minutes += 12 * 60;
+    }
+    const durationMinutes = end && end.minutes > minutes ? end.minutes - minutes : DEFAULT_DURATION_MINUTES;
+    return { start: minutes, durationMinutes };
+}
+
+/**
+ * Maps a free-form `Activity.time` ("9:00 AM", "2-4 PM", "Afternoon") to a
+ * concrete slot. Returns null when the text can't be placed on the clock, in
+ * which case callers should treat the activity as lasting all day.
+ */
+export function parseActivityTime(time: string): TimeSlot | null {
+    const text = time.trim().toLowerCase();
+    if (!text) return null;
+
+    const range = TIME_RANGE.exec(text);
+    const end = range ? toClock(range[4], range[5], range[6]) : null;
+    const rangeStart = range && end ? toClock(range[1], range[2], range[3], true) : null;
+    if (rangeStart && end) return toSlot(rangeStart, end);
+    const start = parseClock(text);
+    if (start) return toSlot(start);
+
+    for (const [pattern, slot] of NAMED_SLOTS) {
+        if (pattern.test(text)) return { ...slot };
+    }
+    return null;
+}
+
+// --- iCalendar ---
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const formatDate = (date: Date) => `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+const formatLocalDateTime = (date: Date) => `${formatDate(date)}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+
+const formatUtcDateTime = (date: Date) =>
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const escapeIcsText = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 limits content lines to 75 octets; longer lines continue on the
+// next line after a single space.
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    for (const char of line) {
+        const limit = parts.length === 0 ? 75 : 74;
+        if (encoder.encode(current + char).length > limit) {
+            parts.push(current);
+            current = char;
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+const activitySummary = (activity: Activity) => {
+    const firstSentence = activity.description.split(/(?<=[.!?])\s/)[0];
+    return firstSentence.length > 80 ? `${firstSentence.slice(0, 77)}...` : firstSentence;
+};
+
+export function itineraryToICS(itinerary: Itinerary, tripStart: Date): string {
+    const stamp = formatUtcDateTime(new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Mindtrip//TravelMind Itinerary//EN',
+        'CALSCALE:GREGORIAN',
+        `X-WR-CALNAME:${escapeIcsText(itinerary.destination)}`,
+    ];
+
+    for (const day of itinerary.itinerary) {
+        const date = new Date(tripStart.getFullYear(), tripStart.getMonth(), tripStart.getDate() + day.day - 1);
+        day.activities.forEach((activity, index) => {
+            const slot = parseActivityTime(activity.time);
+            lines.push('BEGIN:VEVENT');
+            lines.push(`UID:${formatDate(date)}-${day.day}-${index}-${crypto.randomUUID()}@mindtrip`);
+            lines.push(`DTSTAMP:${stamp}`);
+            if (slot) {
+                const start = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, slot.start);
+                const end = new Date(start.getTime() + (activity.durationMinutes ?? slot.durationMinutes) * 60_000);
+                lines.push(`DTSTART:${formatLocalDateTime(start)}`);
+                lines.push(`DTEND:${formatLocalDateTime(end)}`);
+            } else {
+                const nextDay = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+                lines.push(`DTSTART;VALUE=DATE:${formatDate(date)}`);
+                lines.push(`DTEND;VALUE=DATE:${formatDate(nextDay)}`);
+            }
+            lines.push(`SUMMARY:${escapeIcsText(activitySummary(activity))}`);
+            lines.push(`DESCRIPTION:${escapeIcsText(`Day ${day.day}: ${day.title}\n${activity.time}\n${activity.description}`)}`);
+            lines.push(`CATEGORIES:${activity.type.toUpperCase()}`);
+            if (activity.placeName) lines.push(`LOCATION:${escapeIcsText(activity.placeName)}`);
+            if (activity.location) lines.push(`GEO:${activity.location.lat};${activity.location.lng}`);
+            if (activity.url) lines.push(`URL:${activity.url}`);
+            lines.push('END:VEVENT');
+        });
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// --- Markdown ---
+
+export function itineraryToMarkdown(itinerary: Itinerary): string {
+    const lines = [`# ${itinerary.destination}`, '', `**Duration:** ${itinerary.duration}  `, `**Budget:** ${itinerary.budget}`, ''];
+    for (const day of itinerary.itinerary) {
+        lines.push(`## Day ${day.day}: ${day.title}`, '');
+        if (day.summary) lines.push(day.summary, '');
+        for (const activity of day.activities) {
+            const details = [
+                activity.placeName,
+                activity.estimatedCost && formatMoney(activity.estimatedCost),
+                activity.url && `[link](${activity.url})`,
+                activity.videoTimestamp !== undefined && itinerary.sourceVideo?.url && `[video ${formatTimestamp(activity.videoTimestamp)}](${timestampUrl(itinerary.sourceVideo, activity.videoTimestamp)})`,
+            ].filter(Boolean);
+            lines.push(`- **${activity.time || 'Anytime'}** (${activity.type}): ${activity.description}${details.length ? ` — ${details.join(' · ')}` : ''}`);
+        }
+        lines.push('');
+    }
+    return lines.join('\n');
+}
+
+// --- Printable layout ---
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function itineraryToPrintableHtml(itinerary: Itinerary): string {
+    const days = itinerary.itinerary.map(day => `
+        <section class="day">
+            <h2>Day ${day.day}: ${escapeHtml(day.title)}</h2>
+            <p class="summary">${escapeHtml(day.summary)}</p>
+            <table>
+                ${day.activities.map(activity => `
+                <tr>
+                    <td class="time">${escapeHtml(activity.time)}</td>
+                    <td class="type">${escapeHtml(activity.type)}</td>
+                    <td>${escapeHtml(activity.description)}${activity.placeName ? `<div class="place">${escapeHtml(activity.placeName)}</div>` : ''}</td>
+                    <td class="cost">${activity.estimatedCost ? escapeHtml(formatMoney(activity.estimatedCost)) : ''}</td>
+                </tr>`).join('')}
+            </table>
+        </section>`).join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(itinerary.destination)} itinerary</title>
+<style>
+    @page { margin: 18mm; }
+    body { font-family: 'Inter', -apple-system, sans-serif; color: #0f172a; max-width: 800px; margin: 0 auto; padding: 24px; }
+    h1 { margin: 0 0 4px; font-size: 28px; }
+    .meta { color: #475569; margin-bottom: 24px; }
+    .day { break-inside: avoid; page-break-inside: avoid; margin-bottom: 24px; }
+    h2 { font-size: 18px; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; margin-bottom: 8px; }
+    .summary { color: #475569; font-size: 14px; }
+    table { width: 100%; border-collapse: collapse; font-size: 14px; }
+    td { padding: 6px 8px; vertical-align: top; border-bottom: 1px solid #f1f5f9; }
+    .time { white-space: nowrap; font-weight: 600; width: 110px; }
+    .type { text-transform: capitalize; color: #64748b; width: 70px; }
+    .place { color: #64748b; font-size: 12px; margin-top: 2px; }
+    .cost { white-space: nowrap; text-align: right; color: #475569; }
+</style>
+</head>
+<body>
+    <h1>${escapeHtml(itinerary.destination)}</h1>
+    <div class="meta">${escapeHtml(itinerary.duration)} &bull; ${escapeHtml(itinerary.budget)}</div>
+    ${days}
+</body>
+</html>`;
+}
+
+/** Opens the print layout in a new window and brings up the print dialog, where it can be saved as PDF. */
+export function printItinerary(itinerary: Itinerary): void {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+        throw new Error("The print window was blocked by the browser.");
+    }
+    printWindow.document.write(itineraryToPrintableHtml(itinerary));
+    printWindow.document.close();
+    let printed = false;
+    const print = () => {
+        if (printed) return;
+        printed = true;
+        printWindow.print();
+    };
+    printWindow.onload = print;
+    // Some browsers never fire load for document.write content.
+    setTimeout(print, 500);
+}
+
+// --- Downloads ---
+
+export function slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'itinerary';
+}
+
+export function downloadFile(filename: string, content: BlobPart, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
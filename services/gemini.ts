@@ -1,95 +1,251 @@
-import { GoogleGenAI, GenerateContentResponse, LiveSessionCallbacks, Modality, GenerateVideosOperation, Type, Blob } from "@google/genai";
-import { AspectRatio, ChatMessage, Restaurant, YouTubeVideo } from '../types';
-
-async function getGenAI(): Promise<GoogleGenAI> {
-    if ((window as any).aistudio && await (window as any).aistudio.hasSelectedApiKey()) {
-         return new GoogleGenAI({ apiKey: process.env.API_KEY });
-    }
-    return new GoogleGenAI({ apiKey: process.env.API_KEY });
-}
-
-export async function generateChatResponse(history: ChatMessage[], newMessage: string): Promise<GenerateContentResponse> {
-    const ai = await getGenAI();
-
-    const activitySchema = {
-        type: Type.OBJECT,
-        properties: {
-            time: { type: Type.STRING, description: "e.g., '9:00 AM' or 'Afternoon'" },
-            description: { type: Type.STRING },
-            type: { type: Type.STRING, enum: ['flight', 'hotel', 'dining', 'activity', 'travel'] }
+import { Content, ContentListUnion, Type } from "@google/genai";
+import { AspectRatio, ChatMessage, Day, Destination, Itinerary, LiveSessionCallbacks, NewsSearchResult, PhotoAnalysis, PhotoAnalysisMode, ResolvedLocation, Restaurant, VideoAspectRatio, YouTubeVideo } from '../types';
+import { ChatResponseSnapshot, chatResponseValidator } from './chatResponse';
+import { ModelResponseError, parseModelJson } from './modelJson';
+import { getProvider } from './providers';
+import { LiveSessionHandle, PlacesRequest, TextRequest, TextResult, VideoOperation } from './providers/types';
+import { Validator } from './validation';
+import { dayValidator, destinationListValidator, itineraryValidator, landmarkValidator, locationPartsValidator, menuTranslationValidator, newsSearchResultValidator, restaurantListValidator, signReadingValidator, youTubeVideoListValidator } from './validators';
+
+const activitySchema = {
+    type: Type.OBJECT,
+    properties: {
+        time: { type: Type.STRING, description: "e.g., '9:00 AM' or 'Afternoon'" },
+        description: { type: Type.STRING },
+        type: { type: Type.STRING, enum: ['flight', 'hotel', 'dining', 'activity', 'travel'] },
+        placeName: { type: Type.STRING, description: "Name of the venue or place, e.g., 'Louvre Museum'." },
+        location: {
+            type: Type.OBJECT,
+            properties: {
+                lat: { type: Type.NUMBER },
+                lng: { type: Type.NUMBER }
+            },
+            required: ["lat", "lng"]
         },
-        required: ["time", "description", "type"]
-    };
-
-    const daySchema = {
-        type: Type.OBJECT,
-        properties: {
-            day: { type: Type.INTEGER },
-            title: { type: Type.STRING, description: "A catchy title for the day, e.g., 'Arrival in Tokyo & Shinjuku Exploration'." },
-            summary: { type: Type.STRING, description: "A brief summary of the day's plan." },
-            activities: { type: Type.ARRAY, items: activitySchema }
+        durationMinutes: { type: Type.INTEGER, description: "Estimated time spent on the activity, in minutes." },
+        estimatedCost: {
+            type: Type.OBJECT,
+            description: "Estimated cost per person. Use 0 for free activities.",
+            properties: {
+                amount: { type: Type.NUMBER },
+                currency: { type: Type.STRING, description: "ISO 4217 code, e.g., 'USD'. Use the same currency as the budget." }
+            },
+            required: ["amount", "currency"]
         },
-        required: ["day", "title", "summary", "activities"]
-    };
-
-    const itinerarySchema = {
-        type: Type.OBJECT,
-        properties: {
-            destination: { type: Type.STRING },
-            duration: { type: Type.STRING, description: "e.g., '10 Days'" },
-            budget: { type: Type.STRING, description: "e.g., '$5000 per person'" },
-            itinerary: { type: Type.ARRAY, items: daySchema }
+        url: { type: Type.STRING, description: "Official website or booking link, if one exists." }
+    },
+    required: ["time", "description", "type"]
+};
+
+const daySchema = {
+    type: Type.OBJECT,
+    properties: {
+        day: { type: Type.INTEGER },
+        title: { type: Type.STRING, description: "A catchy title for the day, e.g., 'Arrival in Tokyo & Shinjuku Exploration'." },
+        summary: { type: Type.STRING, description: "A brief summary of the day's plan." },
+        activities: { type: Type.ARRAY, items: activitySchema }
+    },
+    required: ["day", "title", "summary", "activities"],
+    propertyOrdering: ["day", "title", "summary", "activities"]
+};
+
+const itinerarySchema = {
+    type: Type.OBJECT,
+    properties: {
+        destination: { type: Type.STRING },
+        duration: { type: Type.STRING, description: "e.g., '10 Days'" },
+        budget: { type: Type.STRING, description: "e.g., '$5000 per person'" },
+        itinerary: { type: Type.ARRAY, items: daySchema }
+    },
+    required: ["destination", "duration", "budget", "itinerary"],
+    propertyOrdering: ["destination", "duration", "budget", "itinerary"]
+};
+
+// contentType is ordered first so a streamed response announces its shape
+// before the payload starts arriving.
+const chatResponseSchema = {
+    type: Type.OBJECT,
+    properties: {
+        contentType: {
+            type: Type.STRING,
+            enum: ['itinerary', 'text'],
+            description: "The type of response. Use 'itinerary' if generating a travel plan, otherwise use 'text'."
         },
-        required: ["destination", "duration", "budget", "itinerary"]
-    };
-
-    const responseSchema = {
-        type: Type.OBJECT,
-        properties: {
-            contentType: {
-                type: Type.STRING,
-                enum: ['itinerary', 'text'],
-                description: "The type of response. Use 'itinerary' if generating a travel plan, otherwise use 'text'."
-            },
-            itineraryPayload: itinerarySchema,
-            textPayload: { type: Type.STRING, description: "A standard text response for general conversation or questions." }
+        itineraryPayload: itinerarySchema,
+        needsSources: {
+            type: Type.BOOLEAN,
+            description: "Set to true when a text answer depends on current or checkable facts, such as opening hours, prices, schedules, visa or entry rules, or recent events."
         },
-        required: ["contentType"]
-    };
+        textPayload: { type: Type.STRING, description: "A standard text response for general conversation or questions." }
+    },
+    required: ["contentType"],
+    propertyOrdering: ["contentType", "needsSources", "textPayload", "itineraryPayload"]
+};
+
+/**
+ * Validates the JSON in `responseText`. If it is unusable, the model is shown the
+ * problems once and asked for a corrected answer; a `ModelResponseError` is
+ * thrown when that fails too. A text prompt or chat history goes along with the
+ * repair, so content missing from a truncated answer can be recovered.
+ */
+async function parseWithRepair<T>(request: Pick<TextRequest, 'purpose' | 'contents' | 'responseSchema' | 'systemInstruction'>, responseText: string, validator: Validator<T>, label: string): Promise<T> {
+    return parseModelJson(responseText, validator, {
+        label,
+        repair: async (issues, previousText) => {
+            const instruction = `Your previous response could not be used because of these problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous response:
+${previousText}
+
+Respond again with corrected JSON only, keeping all the information that was valid.`;
+            // A text prompt is quoted ahead of the instruction, and a conversation
+            // is continued with it as the next user turn. Photos and videos are
+            // not sent again.
+            const contents: ContentListUnion = typeof request.contents === 'string'
+                ? `The original request was:\n${request.contents}\n\n${instruction}`
+                : Array.isArray(request.contents)
+                    ? [...request.contents as Content[], { role: 'user', parts: [{ text: instruction }] }]
+                    : instruction;
+            const response = await getProvider().generateText({
+                purpose: `${request.purpose}-repair`,
+                model: 'gemini-2.5-flash',
+                contents,
+                systemInstruction: request.systemInstruction,
+                responseMimeType: 'application/json',
+                responseSchema: request.responseSchema,
+            });
+            return response.text;
+        },
+    });
+}
 
-    const contents = [
+function chatContents(history: ChatMessage[], newMessage: string) {
+    return [
         ...history.map(msg => ({
             role: msg.role,
             parts: [{ text: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content) }]
         })),
         { role: 'user', parts: [{ text: newMessage }] }
     ];
+}
+
+function withTripContext(systemInstruction: string, tripContext?: string): string {
+    return tripContext
+        ? `${systemInstruction}\n\nThe user is planning a trip with these details: ${tripContext}. Use them unless the user says otherwise.`
+        : systemInstruction;
+}
+
+function buildChatRequest(history: ChatMessage[], newMessage: string, abortSignal?: AbortSignal, tripContext?: string): TextRequest {
+    const contents = chatContents(history, newMessage);
 
-    return await ai.models.generateContent({
+    return {
+        purpose: 'chat',
         model: 'gemini-2.5-pro',
         contents,
-        config: {
-            systemInstruction: "You are TravelMind, an advanced AI travel companion. You MUST respond in JSON format matching the provided schema. Based on the user's prompt, decide if you are creating an itinerary or providing a text answer and set contentType accordingly. Populate ONLY ONE of `itineraryPayload` or `textPayload` with the relevant information.",
-            responseMimeType: "application/json",
-            responseSchema: responseSchema
-        }
+        systemInstruction: withTripContext("You are TravelMind, an advanced AI travel companion. You MUST respond in JSON format matching the provided schema. Based on the user's prompt, decide if you are creating an itinerary or providing a text answer and set contentType accordingly. Populate ONLY ONE of `itineraryPayload` or `textPayload` with the relevant information.", tripContext),
+        responseMimeType: "application/json",
+        responseSchema: chatResponseSchema,
+        abortSignal,
+    };
+}
+
+/**
+ * Streams the chat model's JSON reply to a message. Yields the accumulated
+ * response text after every chunk; aborting `signal` ends the stream early.
+ */
+export async function* streamChatResponse(history: ChatMessage[], newMessage: string, signal?: AbortSignal, tripContext?: string): AsyncGenerator<string> {
+    let text = '';
+    for await (const chunk of getProvider().streamText(buildChatRequest(history, newMessage, signal, tripContext))) {
+        if (signal?.aborted) return;
+        text += chunk;
+        yield text;
+    }
+}
+
+/**
+ * Answers a chat message from Google Search results, for questions the chat
+ * model flagged with `needsSources`. The result carries the grounding metadata
+ * used to cite sources.
+ */
+export async function answerWithSources(history: ChatMessage[], newMessage: string, signal?: AbortSignal, tripContext?: string): Promise<TextResult> {
+    const result = await getProvider().searchGrounded({
+        purpose: 'chat-grounded',
+        model: 'gemini-2.5-flash',
+        contents: chatContents(history, newMessage),
+        systemInstruction: withTripContext("You are TravelMind, an advanced AI travel companion. Answer the user's latest message in plain text, not JSON, using up-to-date information from Google Search. Be concise and state concrete facts such as hours, prices and requirements. Do not list your sources; they are shown separately.", tripContext),
+        abortSignal: signal,
     });
+    if (!result.text.trim()) {
+        throw new ModelResponseError('No answer came back from the web search.', 'empty');
+    }
+    return result;
+}
+
+/**
+ * Validates a finished reply to `newMessage`, asking the model to repair it if
+ * needed. Takes the same conversation as `streamChatResponse` so the repair can
+ * answer the question again.
+ */
+export async function parseChatResponse(history: ChatMessage[], newMessage: string, responseText: string, tripContext?: string): Promise<ChatResponseSnapshot> {
+    return parseWithRepair(buildChatRequest(history, newMessage, undefined, tripContext), responseText, chatResponseValidator, 'reply');
 }
 
 
-export async function generateWithThinking(prompt: string): Promise<GenerateContentResponse> {
-    const ai = await getGenAI();
-    return await ai.models.generateContent({
+export type DayEditMode = 'regenerate' | 'refine' | 'insert';
+
+/**
+ * Produces a single day for an existing itinerary. For 'regenerate' and
+ * 'refine' `dayIndex` is the day being replaced; for 'insert' it is the
+ * position the new day will occupy. The caller renumbers the trip afterwards.
+ */
+export async function generateItineraryDay(itinerary: Itinerary, mode: DayEditMode, dayIndex: number, instruction?: string): Promise<Day> {
+    const days = itinerary.itinerary;
+
+    let task: string;
+    if (mode === 'insert') {
+        const before = days[dayIndex - 1];
+        const after = days[dayIndex];
+        const position = before && after
+            ? `between Day ${before.day} ("${before.title}") and Day ${after.day} ("${after.title}")`
+            : before ? `after the last day, Day ${before.day} ("${before.title}")` : `before Day ${after?.day ?? 1}`;
+        task = `Create ONE new day to be inserted ${position}. It should flow naturally from the day before into the day after and must not repeat activities that are already planned.`;
+    } else {
+        const target = days[dayIndex];
+        task = mode === 'refine'
+            ? `Rewrite Day ${target.day} ("${target.title}") following this instruction: "${instruction}". Keep everything the instruction does not ask to change.`
+            : `Create a fresh alternative for Day ${target.day} ("${target.title}"). Keep it consistent with the rest of the trip but do not repeat activities planned on other days.`;
+    }
+
+    const prompt = `Here is a travel itinerary for ${itinerary.destination} (${itinerary.duration}, budget ${itinerary.budget}):
+${JSON.stringify(days)}
+
+${task}
+${instruction && mode !== 'refine' ? `Additional instruction: "${instruction}".\n` : ''}Respond with a single day object only. Leave all other days unchanged.`;
+
+    const request: TextRequest = {
+        purpose: 'itinerary-day',
         model: 'gemini-2.5-pro',
         contents: prompt,
-        config: {
-            thinkingConfig: { thinkingBudget: 32768 }
-        }
+        systemInstruction: "You are TravelMind, an advanced AI travel companion. You MUST respond in JSON format matching the provided schema.",
+        responseMimeType: "application/json",
+        responseSchema: daySchema,
+    };
+    const response = await getProvider().generateText(request);
+    return parseWithRepair(request, response.text, dayValidator, 'itinerary day');
+}
+
+
+export async function generateWithThinking(prompt: string): Promise<TextResult> {
+    return await getProvider().generateText({
+        purpose: 'thinking',
+        model: 'gemini-2.5-pro',
+        contents: prompt,
+        thinkingBudget: 32768,
     });
 }
 
-export async function groundWithSearch(prompt: string): Promise<GenerateContentResponse> {
-    const ai = await getGenAI();
+export async function groundWithSearch(prompt: string): Promise<NewsSearchResult> {
     const newPrompt = `Find information about "${prompt}".
 
 You MUST respond with a single JSON object. Do not include any other text or markdown formatting. The JSON object should be the only content in your response.
@@ -107,18 +263,17 @@ The object should have the following structure:
   ]
 }`;
 
-    return await ai.models.generateContent({
+    const request: TextRequest = {
+        purpose: 'news',
         model: 'gemini-2.5-flash',
         contents: newPrompt,
-        config: {
-            tools: [{ googleSearch: {} }],
-        },
-    });
+    };
+    const response = await getProvider().searchGrounded(request);
+    const result = await parseWithRepair(request, response.text, newsSearchResultValidator, 'news');
+    return { ...result, groundingChunks: response.groundingChunks };
 }
 
 export async function getNearbyRestaurants(prompt: string, latitude: number, longitude: number): Promise<Restaurant[]> {
-    const ai = await getGenAI();
-    
     const newPrompt = `Find popular places near the user, such as restaurants, hotels, and attractions based on the query: "${prompt}".
 
 You MUST respond with ONLY a JSON array of objects. Do not include any other text, markdown formatting, or explanations. The JSON array must be the only content in your response.
@@ -137,48 +292,80 @@ Each object in the array should represent a place and have the following structu
 Ensure the response is a valid JSON array.
 `;
 
-    const response = await ai.models.generateContent({
+    const request: PlacesRequest = {
+        purpose: 'nearby-places',
         model: "gemini-2.5-flash",
         contents: newPrompt,
-        config: {
-            tools: [{ googleMaps: {} }],
-            toolConfig: {
-                retrievalConfig: {
-                    latLng: {
-                        latitude,
-                        longitude,
-                    }
-                }
-            }
-        },
+        latitude,
+        longitude,
+    };
+    const response = await getProvider().searchPlaces(request);
+    return parseWithRepair(request, response.text, restaurantListValidator, 'nearby places');
+}
+
+/**
+ * A short traveller's overview of one place from Google Search results. The
+ * result carries the grounding metadata used to cite sources.
+ */
+export async function getPlaceOverview(place: Restaurant): Promise<TextResult> {
+    const types = place.types?.length ? ` (${place.types.join(', ')})` : '';
+    const result = await getProvider().searchGrounded({
+        purpose: 'place-overview',
+        model: 'gemini-2.5-flash',
+        contents: `Give a traveller a short overview of "${place.name}"${types}, located at ${place.vicinity || 'unknown address'} (coordinates ${place.location.lat}, ${place.location.lng}). Cover what it is and what it is known for, typical prices, opening hours if you can find them, and one or two practical tips. Answer in plain text, not JSON, in at most two short paragraphs. Do not list your sources; they are shown separately.`,
     });
+    if (!result.text.trim()) {
+        throw new ModelResponseError('No overview came back from the web search.', 'empty');
+    }
+    return result;
+}
 
-    try {
-        const jsonText = response.text?.trim().replace(/^```json|```$/g, '');
-        if (!jsonText) {
-            console.error("Gemini response for nearby places was empty or undefined.");
-            return [];
-        }
-        const places = JSON.parse(jsonText);
-
-        return places.map((place: any): Restaurant => ({
-            placeId: place.placeId || `generated-${place.name}-${Math.random()}`,
-            name: place.name,
-            rating: place.rating || 0,
-            reviewCount: place.reviewCount || 0,
-            vicinity: place.vicinity,
-            location: place.location,
-            types: place.types || [],
-        }));
-    } catch (e) {
-        console.error("Failed to parse Gemini response as JSON:", e, "Response text:", response.text);
-        return [];
+const destinationListSchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            name: { type: Type.STRING, description: "Place name with its country, e.g. 'Kyoto, Japan'." },
+            lat: { type: Type.NUMBER },
+            lng: { type: Type.NUMBER },
+            city: { type: Type.STRING, description: "The city or town, or the place's name when it is not in one." },
+            region: { type: Type.STRING, description: "State, province or prefecture; empty when there is none." },
+            country: { type: Type.STRING }
+        },
+        required: ["name", "lat", "lng", "city", "country"]
     }
+};
+
+/** Looks up cities, regions or landmarks matching what the user typed, most likely first. */
+export async function searchDestinations(query: string): Promise<Destination[]> {
+    const request: TextRequest = {
+        purpose: 'destination-search',
+        model: 'gemini-2.5-flash',
+        contents: `List up to 5 travel destinations matching "${query}". Prefer cities and regions; include the coordinates of each one's centre.`,
+        responseMimeType: 'application/json',
+        responseSchema: destinationListSchema,
+    };
+    const response = await getProvider().generateText(request);
+    return parseWithRepair(request, response.text, destinationListValidator, 'destination search');
+}
+
+/** Names the city, region and country a coordinate is in. */
+export async function reverseGeocode(latitude: number, longitude: number): Promise<ResolvedLocation> {
+    const request: PlacesRequest = {
+        purpose: 'reverse-geocode',
+        model: 'gemini-2.5-flash',
+        contents: `Which city or town, region (state, province or prefecture) and country is the point ${latitude.toFixed(5)}, ${longitude.toFixed(5)} in?
+
+Respond with ONLY a JSON object of the form {"city": "string", "region": "string", "country": "string"}. Use an empty string for region when there is none. Do not include any other text.`,
+        latitude,
+        longitude,
+    };
+    const response = await getProvider().searchPlaces(request);
+    const parts = await parseWithRepair(request, response.text, locationPartsValidator, 'location');
+    return { ...parts, lat: latitude, lng: longitude };
 }
 
 export async function findYouTubeVideosByTopic(topic: string): Promise<YouTubeVideo[]> {
-    const ai = await getGenAI();
-    
     const prompt = `Find 5-10 popular YouTube videos about "${topic}".
 
 You MUST respond with ONLY a valid JSON array of objects. Do not include any other text, markdown formatting (like \`\`\`json), or explanations. The JSON array must be the only content in your response.
@@ -195,167 +382,231 @@ Each object in the array should represent a YouTube video and have the following
 Ensure all thumbnail URLs are high quality.
 `;
 
-    const response = await ai.models.generateContent({
+    const request: TextRequest = {
+        purpose: 'youtube-videos',
         model: "gemini-2.5-flash",
         contents: prompt,
-        config: {
-            tools: [{ googleSearch: {} }],
-        },
-    });
+    };
+    const response = await getProvider().searchGrounded(request);
+    return parseWithRepair(request, response.text, youTubeVideoListValidator, 'YouTube videos');
+}
 
-    try {
-        const jsonText = response.text?.trim().replace(/^```json|```$/g, '');
-        if (!jsonText) {
-            console.error("Gemini response for YouTube videos was empty or undefined.");
-            return [];
-        }
-        const videos = JSON.parse(jsonText);
-        if (Array.isArray(videos)) {
-            return videos.filter(v => v.videoId && v.title && v.thumbnailUrl);
-        }
-        console.error("Gemini response for YouTube videos was not an array:", videos);
-        return [];
-    } catch (e) {
-        console.error("Failed to parse Gemini response for YouTube videos as JSON:", e, "Response text:", response.text);
-        return [];
-    }
+
+export async function generateImage(prompt: string, aspectRatio: AspectRatio, signal?: AbortSignal): Promise<string> {
+    return await getProvider().generateImage({ prompt, aspectRatio, abortSignal: signal });
 }
 
+export async function editImage(base64Image: string, mimeType: string, prompt: string, signal?: AbortSignal): Promise<string> {
+    return await getProvider().editImage({ base64Image, mimeType, prompt, abortSignal: signal });
+}
 
-export async function generateImage(prompt: string, aspectRatio: AspectRatio): Promise<string> {
-    const ai = await getGenAI();
-    const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
+export async function generateVideo(prompt: string, base64Image: string | null, mimeType: string | null, aspectRatio: VideoAspectRatio, signal?: AbortSignal): Promise<VideoOperation> {
+    return await getProvider().generateVideo({
         prompt,
-        config: {
-            numberOfImages: 1,
-            outputMimeType: 'image/jpeg',
-            aspectRatio,
-        },
+        image: base64Image && mimeType ? { base64: base64Image, mimeType } : undefined,
+        aspectRatio,
+        abortSignal: signal,
     });
-    const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-    return `data:image/jpeg;base64,${base64ImageBytes}`;
 }
 
-export async function editImage(base64Image: string, mimeType: string, prompt: string): Promise<string> {
-    const ai = await getGenAI();
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
+export async function checkVideoStatus(operation: VideoOperation, signal?: AbortSignal): Promise<VideoOperation> {
+    return await getProvider().getVideoOperation(operation, signal);
+}
+
+export async function fetchGeneratedVideo(videoUri: string, signal?: AbortSignal): Promise<Blob> {
+    return await getProvider().fetchVideo(videoUri, signal);
+}
+
+export async function analyzeImage(base64Image: string, mimeType: string, prompt: string): Promise<TextResult> {
+    return await getProvider().generateText({
+        purpose: 'image-analysis',
+        model: 'gemini-2.5-flash',
         contents: {
             parts: [
                 { inlineData: { data: base64Image, mimeType } },
                 { text: prompt },
             ],
         },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
     });
-
-    for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-            const base64ImageBytes: string = part.inlineData.data;
-            return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
-        }
-    }
-    throw new Error("No image generated");
 }
 
-export async function generateVideo(prompt: string, base64Image: string | null, mimeType: string | null, aspectRatio: '16:9' | '9:16'): Promise<GenerateVideosOperation> {
-    if ((window as any).aistudio) {
-        if (!(await (window as any).aistudio.hasSelectedApiKey())) {
-            await (window as any).aistudio.openSelectKey();
-        }
-    }
-
-    const ai = await getGenAI();
-    
-    let operation;
-    if (base64Image && mimeType) {
-        operation = await ai.models.generateVideos({
-            model: 'veo-3.1-fast-generate-preview',
-            prompt,
-            image: { imageBytes: base64Image, mimeType },
-            config: {
-                numberOfVideos: 1,
-                resolution: '720p',
-                aspectRatio
+const menuSchema = {
+    type: Type.OBJECT,
+    properties: {
+        restaurantName: { type: Type.STRING, description: "Only if printed on the menu." },
+        language: { type: Type.STRING, description: "The language the menu is written in." },
+        dishes: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING, description: "The dish name in English." },
+                    originalName: { type: Type.STRING, description: "The dish name exactly as printed." },
+                    description: { type: Type.STRING, description: "What the dish is and how it is prepared, in one or two sentences." },
+                    allergens: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Likely allergens, e.g. 'gluten', 'shellfish', 'peanuts'." },
+                    price: { type: Type.STRING, description: "The price as printed, including the currency symbol." }
+                },
+                required: ["name", "originalName", "description", "allergens"]
             }
-        });
-    } else {
-        operation = await ai.models.generateVideos({
-            model: 'veo-3.1-fast-generate-preview',
-            prompt,
-            config: {
-                numberOfVideos: 1,
-                resolution: '720p',
-                aspectRatio
+        }
+    },
+    required: ["language", "dishes"]
+};
+
+const landmarkSchema = {
+    type: Type.OBJECT,
+    properties: {
+        name: { type: Type.STRING },
+        city: { type: Type.STRING },
+        country: { type: Type.STRING },
+        summary: { type: Type.STRING, description: "What the landmark is, in one or two sentences." },
+        history: { type: Type.STRING, description: "A short paragraph on its history." },
+        nearbyTips: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Practical tips: best time to visit, tickets, things nearby." },
+        location: {
+            type: Type.OBJECT,
+            properties: {
+                lat: { type: Type.NUMBER },
+                lng: { type: Type.NUMBER }
+            },
+            required: ["lat", "lng"]
+        },
+        visitDurationMinutes: { type: Type.INTEGER, description: "Typical time a visitor spends here." },
+        confidence: { type: Type.STRING, enum: ['high', 'medium', 'low'], description: "How sure the identification is." }
+    },
+    required: ["name", "city", "country", "summary", "history", "nearbyTips", "confidence"]
+};
+
+const signSchema = {
+    type: Type.OBJECT,
+    properties: {
+        kind: { type: Type.STRING, enum: ['sign', 'timetable', 'notice'] },
+        language: { type: Type.STRING, description: "The language the sign is written in." },
+        translation: { type: Type.STRING, description: "A faithful English translation of all the text." },
+        keyPoints: { type: Type.ARRAY, items: { type: Type.STRING }, description: "What a traveller needs to know or do, e.g. closing times or restrictions." },
+        timetable: {
+            type: Type.ARRAY,
+            description: "Each departure or opening slot, if the photo shows a schedule.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    time: { type: Type.STRING },
+                    destination: { type: Type.STRING },
+                    details: { type: Type.STRING, description: "Platform, route number or days of operation." }
+                },
+                required: ["time", "destination", "details"]
             }
-        });
-    }
-    return operation;
-}
-
-export async function checkVideoStatus(operation: GenerateVideosOperation): Promise<GenerateVideosOperation> {
-    const ai = await getGenAI();
-    return await ai.operations.getVideosOperation({ operation });
-}
-
-export async function analyzeImage(base64Image: string, mimeType: string, prompt: string): Promise<GenerateContentResponse> {
-    const ai = await getGenAI();
-    return await ai.models.generateContent({
+        }
+    },
+    required: ["kind", "language", "translation", "keyPoints", "timetable"]
+};
+
+const PHOTO_PROMPTS: Record<PhotoAnalysisMode, string> = {
+    menu: "This is a photo of a restaurant menu. Translate every dish into English, explain what it is, and list likely allergens. Keep prices exactly as printed.",
+    landmark: "This is a photo taken by a traveller. Identify the landmark or building in it, give its history, and practical tips for visiting it and the area around it. If you are unsure, give your best guess and set confidence to 'low'.",
+    sign: "This is a photo of a sign, notice or timetable. Translate all the text into English and pull out what a traveller needs to know. If it is a schedule, list every row.",
+};
+
+/** Reads a photo of a menu, landmark or sign into the structured result for that mode. */
+export async function analyzePhoto(base64Image: string, mimeType: string, mode: PhotoAnalysisMode): Promise<PhotoAnalysis> {
+    const schemas = { menu: menuSchema, landmark: landmarkSchema, sign: signSchema };
+    const request: TextRequest = {
+        purpose: `photo-${mode}`,
         model: 'gemini-2.5-flash',
         contents: {
             parts: [
                 { inlineData: { data: base64Image, mimeType } },
-                { text: prompt },
+                { text: PHOTO_PROMPTS[mode] },
             ],
         },
-    });
+        responseMimeType: 'application/json',
+        responseSchema: schemas[mode],
+    };
+    const response = await getProvider().generateText(request);
+    switch (mode) {
+        case 'menu':
+            return { mode, result: await parseWithRepair(request, response.text, menuTranslationValidator, 'menu translation') };
+        case 'landmark':
+            return { mode, result: await parseWithRepair(request, response.text, landmarkValidator, 'landmark details') };
+        case 'sign':
+            return { mode, result: await parseWithRepair(request, response.text, signReadingValidator, 'sign translation') };
+    }
+}
+
+/** A video to analyze: a YouTube link, or a file small enough to send inline. */
+export type VideoInput =
+    | { kind: 'youtube'; url: string; title?: string }
+    | { kind: 'file'; base64: string; mimeType: string; name: string };
+
+function videoPart(video: VideoInput) {
+    return video.kind === 'youtube'
+        ? { fileData: { fileUri: video.url } }
+        : { inlineData: { data: video.base64, mimeType: video.mimeType } };
 }
 
-export async function analyzeVideo(prompt: string): Promise<GenerateContentResponse> {
-    const ai = await getGenAI();
-    return await ai.models.generateContent({
+export async function analyzeVideo(video: VideoInput, prompt: string): Promise<TextResult> {
+    return await getProvider().generateText({
+        purpose: 'video-analysis',
         model: 'gemini-2.5-pro',
-        contents: prompt,
+        contents: { parts: [videoPart(video), { text: prompt }] },
     });
 }
 
-export async function generateSpeech(text: string): Promise<string> {
-    const ai = await getGenAI();
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text }] }],
-        config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-                voiceConfig: {
-                    prebuiltVoiceConfig: { voiceName: 'Kore' },
-                },
-            },
-        },
-    });
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) {
-        throw new Error("No audio data received from TTS API.");
+// The itinerary schema, with every activity tied to the moment in the video it comes from.
+const vlogActivitySchema = {
+    ...activitySchema,
+    properties: {
+        ...activitySchema.properties,
+        videoTimestamp: { type: Type.INTEGER, description: "Seconds from the start of the video where this place or tip appears." }
+    },
+    required: [...activitySchema.required, "videoTimestamp"]
+};
+
+const vlogItinerarySchema = {
+    ...itinerarySchema,
+    properties: {
+        ...itinerarySchema.properties,
+        itinerary: {
+            type: Type.ARRAY,
+            items: { ...daySchema, properties: { ...daySchema.properties, activities: { type: Type.ARRAY, items: vlogActivitySchema } } }
+        }
     }
-    return base64Audio;
+};
+
+/** Watches a travel vlog and lays out the places it visits as an itinerary. */
+export async function itineraryFromVideo(video: VideoInput): Promise<Itinerary> {
+    const request: TextRequest = {
+        purpose: 'vlog-itinerary',
+        model: 'gemini-2.5-pro',
+        contents: {
+            parts: [
+                videoPart(video),
+                { text: `Turn this travel vlog into an itinerary someone could follow.
+List the places visited in the order they appear, split into days the way the video does (use a single day if it doesn't say).
+For each activity, put the venue in placeName, describe what was done there, and include any tips the creator mentions, such as prices, timing or what to avoid, in the description.
+Set videoTimestamp to the second where the place or tip appears. Only include places that are shown or named in the video.
+Set destination to the place the video covers, and budget to what the video mentions or an empty string.` },
+            ],
+        },
+        systemInstruction: "You are TravelMind, an advanced AI travel companion. You MUST respond in JSON format matching the provided schema.",
+        responseMimeType: 'application/json',
+        responseSchema: vlogItinerarySchema,
+    };
+    const response = await getProvider().generateText(request);
+    const itinerary = await parseWithRepair(request, response.text, itineraryValidator, 'video itinerary');
+    const sourceVideo = video.kind === 'youtube'
+        ? { title: video.title || video.url, url: video.url }
+        : { title: video.name };
+    return { ...itinerary, sourceVideo };
+}
+
+export async function generateSpeech(text: string, signal?: AbortSignal): Promise<string> {
+    return await getProvider().generateSpeech({ text, voiceName: 'Kore', abortSignal: signal });
 }
 
-export async function startLiveSession(callbacks: LiveSessionCallbacks) {
-    const ai = await getGenAI();
-    return ai.live.connect({
+export async function startLiveSession(callbacks: LiveSessionCallbacks): Promise<LiveSessionHandle> {
+    return await getProvider().connectLive({
         model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks,
-        config: {
-            responseModalities: [Modality.AUDIO],
-            inputAudioTranscription: {},
-            outputAudioTranscription: {},
-            speechConfig: {
-                voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-            },
-            systemInstruction: 'You are TravelMind, a friendly and helpful AI travel assistant. Keep your responses concise and conversational.',
-        },
-    });
-}
\ No newline at end of file
+        voiceName: 'Zephyr',
+        systemInstruction: 'You are TravelMind, a friendly and helpful AI travel assistant. Keep your responses concise and conversational.',
+    }, callbacks);
+}
@@ -0,0 +1,93 @@
+import { AspectRatio, CardCover, ContentCardData, ImageEditStep, StudioImage } from '../types';
+import * as db from './db';
+import { editImage, generateImage } from './gemini';
+import { downloadFile, slugify } from './export';
+
+export function parseDataUrl(dataUrl: string): { mimeType: string; base64: string } {
+    const match = /^data:([^;,]+);base64,(.*)$/.exec(dataUrl);
+    if (!match) throw new Error('Expected a base64 data URL.');
+    return { mimeType: match[1], base64: match[2] };
+}
+
+export function readFileAsDataUrl(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+}
+
+export function latestStep(image: StudioImage): ImageEditStep {
+    return image.steps[image.steps.length - 1];
+}
+
+export async function listImages(): Promise<StudioImage[]> {
+    const images = await db.getAll<StudioImage>(db.STORES.images);
+    return images.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+async function saveImage(image: StudioImage): Promise<StudioImage> {
+    await db.put(db.STORES.images, image);
+    return image;
+}
+
+function createImage(title: string, step: ImageEditStep, aspectRatio?: AspectRatio): StudioImage {
+    return {
+        id: crypto.randomUUID(),
+        title,
+        aspectRatio,
+        steps: [step],
+        createdAt: step.createdAt,
+        updatedAt: step.createdAt,
+    };
+}
+
+export async function generateStudioImage(prompt: string, aspectRatio: AspectRatio): Promise<StudioImage> {
+    const imageUrl = await generateImage(prompt, aspectRatio);
+    return saveImage(createImage(prompt, { prompt, imageUrl, createdAt: Date.now() }, aspectRatio));
+}
+
+export function addUploadedImage(name: string, imageUrl: string): Promise<StudioImage> {
+    return saveImage(createImage(name, { prompt: '', imageUrl, createdAt: Date.now() }));
+}
+
+/**
+ * Edits the image at `fromStep` and appends the result as the newest step, so
+ * the history keeps every version that was made.
+ */
+export async function applyEdit(image: StudioImage, fromStep: number, prompt: string): Promise<StudioImage> {
+    const { mimeType, base64 } = parseDataUrl(image.steps[fromStep].imageUrl);
+    const imageUrl = await editImage(base64, mimeType, prompt);
+    const now = Date.now();
+    return saveImage({ ...image, steps: [...image.steps, { prompt, imageUrl, createdAt: now }], updatedAt: now });
+}
+
+export function deleteImage(id: string): Promise<void> {
+    return db.remove(db.STORES.images, id);
+}
+
+export async function downloadImage(imageUrl: string, name: string): Promise<void> {
+    const { mimeType } = parseDataUrl(imageUrl);
+    const blob = await (await fetch(imageUrl)).blob();
+    const extension = mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+    downloadFile(`${slugify(name).slice(0, 60)}.${extension}`, blob, mimeType);
+}
+
+/** Explore cards have no ids; videos are keyed by link and places by title. */
+export function cardCoverKey(card: Pick<ContentCardData, 'title' | 'url'>): string {
+    return card.url ?? `card:${card.title}`;
+}
+
+export async function listCardCovers(): Promise<Record<string, string>> {
+    const covers = await db.getAll<CardCover>(db.STORES.cardCovers);
+    return Object.fromEntries(covers.map(cover => [cover.id, cover.imageUrl]));
+}
+
+export async function setCardCover(key: string, imageUrl: string): Promise<void> {
+    await db.put(db.STORES.cardCovers, { id: key, imageUrl });
+}
+
+export function removeCardCover(key: string): Promise<void> {
+    return db.remove(db.STORES.cardCovers, key);
+}
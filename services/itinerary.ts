@@ -0,0 +1,69 @@
+import { Activity, Day, Itinerary, Money } from '../types';
+
+export function renumberDays(days: Day[]): Day[] {
+    return days.map((day, index) => ({ ...day, day: index + 1 }));
+}
+
+export function createEmptyDay(dayNumber: number): Day {
+    return { day: dayNumber, title: '', summary: '', activities: [] };
+}
+
+export function createEmptyActivity(): Activity {
+    return { time: '', description: '', type: 'activity' };
+}
+
+export function replaceDay(itinerary: Itinerary, index: number, day: Day): Itinerary {
+    const days = itinerary.itinerary.map((d, i) => i === index ? day : d);
+    return { ...itinerary, itinerary: renumberDays(days) };
+}
+
+export function insertDay(itinerary: Itinerary, index: number, day: Day): Itinerary {
+    const days = [...itinerary.itinerary.slice(0, index), day, ...itinerary.itinerary.slice(index)];
+    return { ...itinerary, itinerary: renumberDays(days) };
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+    '$': 'USD', 'US$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR', '₩': 'KRW',
+    '฿': 'THB', 'RM': 'MYR', 'S$': 'SGD', 'A$': 'AUD', 'C$': 'CAD', '₫': 'VND', '₱': 'PHP',
+};
+
+/** Totals activity costs per currency. Activities without an estimate are skipped. */
+export function sumCosts(activities: Activity[]): Money[] {
+    const totals = new Map<string, number>();
+    for (const { estimatedCost } of activities) {
+        if (!estimatedCost || !Number.isFinite(estimatedCost.amount)) continue;
+        const currency = estimatedCost.currency.toUpperCase();
+        totals.set(currency, (totals.get(currency) ?? 0) + estimatedCost.amount);
+    }
+    return Array.from(totals, ([currency, amount]) => ({ currency, amount }));
+}
+
+export function itineraryCosts(itinerary: Itinerary): Money[] {
+    return sumCosts(itinerary.itinerary.flatMap(day => day.activities));
+}
+
+/** Reads an amount out of a free-form budget such as "$5,000 per person" or "2000 EUR". */
+export function parseBudget(budget: string): Money | null {
+    const match = /(US\$|[ASC]\$|RM|[A-Z]{3}(?=\s*\d)|[$€£¥₹₩฿₫₱])?\s*(\d[\d,]*(?:\.\d+)?)\s*([kK]\b)?\s*(?:([A-Z]{3})\b)?/.exec(budget);
+    if (!match) return null;
+    const prefix = match[1];
+    const currency = match[4] ?? (prefix && /^[A-Z]{3}$/.test(prefix) ? prefix : prefix ? CURRENCY_SYMBOLS[prefix] : undefined);
+    if (!currency) return null;
+    const amount = parseFloat(match[2].replace(/,/g, '')) * (match[3] ? 1000 : 1);
+    return Number.isFinite(amount) ? { amount, currency } : null;
+}
+
+export function formatMoney({ amount, currency }: Money): string {
+    try {
+        return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+    } catch {
+        return `${Math.round(amount)} ${currency}`;
+    }
+}
+
+export function formatDuration(minutes: number): string {
+    if (minutes < 60) return `${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
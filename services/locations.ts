@@ -0,0 +1,50 @@
+import { Destination, ResolvedLocation } from '../types';
+import { reverseGeocode } from './lookups';
+
+// Locations picked in Explore: the structured record behind a destination or
+// the device position, and the recently picked ones offered again in the
+// location picker.
+
+const RECENTS_KEY = 'travelmind.recentLocations';
+const MAX_RECENTS = 5;
+
+const sameSpot = (a: Destination, b: Destination) => a.name === b.name && Math.abs(a.lat - b.lat) < 0.001 && Math.abs(a.lng - b.lng) < 0.001;
+
+export function loadRecentLocations(): Destination[] {
+    try {
+        const stored = localStorage.getItem(RECENTS_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.error("Failed to read recent locations:", error);
+        return [];
+    }
+}
+
+/** Moves `destination` to the top of the recent locations. */
+export function rememberLocation(destination: Destination): Destination[] {
+    const recents = [destination, ...loadRecentLocations().filter(recent => !sameSpot(recent, destination))].slice(0, MAX_RECENTS);
+    try {
+        localStorage.setItem(RECENTS_KEY, JSON.stringify(recents));
+    } catch (error) {
+        console.error("Failed to save recent locations:", error);
+    }
+    return recents;
+}
+
+/** 'Kyoto, Kyoto Prefecture, Japan'-style description, skipping missing parts. */
+export function locationDetails(location: Partial<Pick<ResolvedLocation, 'city' | 'region' | 'country'>>): string {
+    return [location.city, location.region, location.country]
+        .filter((part, index, parts) => part && parts.indexOf(part) === index)
+        .join(', ');
+}
+
+/**
+ * The structured record for a picked destination, reverse geocoding its
+ * coordinates when it came from a link and so has only a name.
+ */
+export async function resolveDestination(destination: Destination): Promise<ResolvedLocation> {
+    if (destination.city && destination.country) {
+        return { city: destination.city, region: destination.region ?? '', country: destination.country, lat: destination.lat, lng: destination.lng };
+    }
+    return reverseGeocode(destination.lat, destination.lng);
+}
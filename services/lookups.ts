@@ -0,0 +1,68 @@
+import { Destination, ResolvedLocation, Restaurant } from '../types';
+import { cached } from './cache';
+import * as gemini from './gemini';
+import { placeKey } from './places';
+import { TextResult } from './providers/types';
+import { discoverVideos, YouTubeSearchPage } from './youtube';
+
+// Cached versions of the lookups Explore repeats every time it is opened. Each
+// takes an optional `onRefresh` that receives newer results when a stale copy
+// was returned; see services/cache.ts.
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const normalizeQuery = (query: string) => query.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Three decimals is about 100 m, close enough that the nearby results are the same.
+const roundCoordinate = (value: number) => Math.round(value * 1000) / 1000;
+
+const nearbyPlaces = cached(
+    { name: 'nearby-places', freshForMs: 30 * MINUTE, staleForMs: DAY },
+    gemini.getNearbyRestaurants,
+);
+
+export function getNearbyPlaces(query: string, latitude: number, longitude: number, onRefresh?: (places: Restaurant[]) => void): Promise<Restaurant[]> {
+    return nearbyPlaces([normalizeQuery(query), roundCoordinate(latitude), roundCoordinate(longitude)], onRefresh);
+}
+
+const travelVideos = cached(
+    { name: 'travel-videos', freshForMs: 12 * HOUR, staleForMs: 7 * DAY },
+    discoverVideos,
+);
+
+export function getTravelVideos(topic: string, onRefresh?: (page: YouTubeSearchPage) => void): Promise<YouTubeSearchPage> {
+    return travelVideos([normalizeQuery(topic)], onRefresh);
+}
+
+const placeOverviews = cached(
+    { name: 'place-overview', freshForMs: 7 * DAY, staleForMs: 30 * DAY, key: placeKey },
+    gemini.getPlaceOverview,
+);
+
+export function getPlaceOverview(place: Restaurant, onRefresh?: (overview: TextResult) => void): Promise<TextResult> {
+    return placeOverviews([place], onRefresh);
+}
+
+// Place names and coordinates do not change, so these are never refreshed early.
+const destinations = cached(
+    { name: 'destination-search', freshForMs: 30 * DAY, staleForMs: 30 * DAY },
+    gemini.searchDestinations,
+);
+
+export function searchDestinations(query: string): Promise<Destination[]> {
+    return destinations([normalizeQuery(query)]);
+}
+
+// Two decimals is about a kilometre, well inside any city.
+const locations = cached(
+    { name: 'reverse-geocode', freshForMs: 30 * DAY, staleForMs: 30 * DAY },
+    gemini.reverseGeocode,
+);
+
+export async function reverseGeocode(latitude: number, longitude: number): Promise<ResolvedLocation> {
+    const location = await locations([Math.round(latitude * 100) / 100, Math.round(longitude * 100) / 100]);
+    // The cached entry may be for a point up to a kilometre away.
+    return { ...location, lat: latitude, lng: longitude };
+}
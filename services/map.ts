@@ -0,0 +1,123 @@
+// Web Mercator helpers for drawing maps as plain SVG. Map tiles are optional:
+// without a tile source the map is drawn as a grid with markers and a route,
+// which needs no network access at all.
+
+export interface LatLng {
+    lat: number;
+    lng: number;
+}
+
+export interface TileSource {
+    /** Returns the image URL of the tile at column `x`, row `y` and zoom `z`. */
+    url: (x: number, y: number, z: number) => string;
+    attribution?: string;
+    maxZoom: number;
+}
+
+export const TILE_SIZE = 256;
+const DEFAULT_MAX_ZOOM = 17;
+const SINGLE_POINT_ZOOM = 15;
+
+/**
+ * Builds a tile source from a `{z}/{x}/{y}` URL template, such as
+ * `https://tile.openstreetmap.org/{z}/{x}/{y}.png`.
+ */
+export function templateTileSource(template: string, attribution?: string, maxZoom = 19): TileSource {
+    return {
+        url: (x, y, z) => template.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y)),
+        attribution,
+        maxZoom,
+    };
+}
+
+/** The tile source set through MAP_TILE_URL, or null to draw vector-only maps. */
+export function getConfiguredTileSource(): TileSource | null {
+    const template = process.env.MAP_TILE_URL;
+    return template ? templateTileSource(template, process.env.MAP_TILE_ATTRIBUTION) : null;
+}
+
+export function isValidLatLng(point: Partial<LatLng> | undefined | null): point is LatLng {
+    return !!point
+        && typeof point.lat === 'number' && typeof point.lng === 'number'
+        && Math.abs(point.lat) <= 90 && Math.abs(point.lng) <= 180;
+}
+
+/** Projects a coordinate to world pixels at the given zoom level. */
+export function project({ lat, lng }: LatLng, zoom: number): { x: number; y: number } {
+    const scale = TILE_SIZE * 2 ** zoom;
+    const clampedLat = Math.max(-85.05112878, Math.min(85.05112878, lat));
+    const sin = Math.sin((clampedLat * Math.PI) / 180);
+    return {
+        x: ((lng + 180) / 360) * scale,
+        y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+    };
+}
+
+export interface Viewport {
+    zoom: number;
+    /** World-pixel coordinate at the centre of the viewport. */
+    center: { x: number; y: number };
+    width: number;
+    height: number;
+}
+
+/** Picks the highest zoom at which every point fits inside the viewport. */
+export function fitViewport(points: LatLng[], width: number, height: number, padding = 40, maxZoom = DEFAULT_MAX_ZOOM): Viewport {
+    if (points.length === 0) {
+        return { zoom: 1, center: project({ lat: 0, lng: 0 }, 1), width, height };
+    }
+    if (points.length === 1) {
+        const zoom = Math.min(SINGLE_POINT_ZOOM, maxZoom);
+        return { zoom, center: project(points[0], zoom), width, height };
+    }
+
+    for (let zoom = maxZoom; zoom >= 1; zoom--) {
+        const projected = points.map(p => project(p, zoom));
+        const xs = projected.map(p => p.x);
+        const ys = projected.map(p => p.y);
+        const minX = Math.min(...xs), maxX = Math.max(...xs);
+        const minY = Math.min(...ys), maxY = Math.max(...ys);
+        if (maxX - minX <= width - padding * 2 && maxY - minY <= height - padding * 2) {
+            return { zoom, center: { x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, width, height };
+        }
+    }
+    return fitViewport(points.slice(0, 1), width, height, padding, 1);
+}
+
+/** Converts a coordinate to a pixel position inside the viewport. */
+export function toScreen(point: LatLng, viewport: Viewport): { x: number; y: number } {
+    const world = project(point, viewport.zoom);
+    return {
+        x: world.x - viewport.center.x + viewport.width / 2,
+        y: world.y - viewport.center.y + viewport.height / 2,
+    };
+}
+
+export interface PlacedTile {
+    key: string;
+    url: string;
+    x: number;
+    y: number;
+}
+
+/** Lists the tiles that cover the viewport, positioned in screen pixels. */
+export function visibleTiles(viewport: Viewport, source: TileSource): PlacedTile[] {
+    const zoom = Math.min(Math.round(viewport.zoom), source.maxZoom);
+    const count = 2 ** zoom;
+    const left = viewport.center.x - viewport.width / 2;
+    const top = viewport.center.y - viewport.height / 2;
+    const tiles: PlacedTile[] = [];
+    for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + viewport.height) / TILE_SIZE); ty++) {
+        if (ty < 0 || ty >= count) continue;
+        for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + viewport.width) / TILE_SIZE); tx++) {
+            const wrappedX = ((tx % count) + count) % count;
+            tiles.push({
+                key: `${zoom}/${tx}/${ty}`,
+                url: source.url(wrappedX, ty, zoom),
+                x: tx * TILE_SIZE - left,
+                y: ty * TILE_SIZE - top,
+            });
+        }
+    }
+    return tiles;
+}
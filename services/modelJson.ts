@@ -0,0 +1,132 @@
+import { Validator } from './validation';
+
+// Shared parsing for JSON the model returns. Tool-grounded calls (search, maps)
+// cannot use a response schema, so their JSON often arrives wrapped in prose or
+// code fences, with trailing commas, or with fields of the wrong type.
+
+export type ModelResponseProblem = 'empty' | 'malformed' | 'invalid';
+
+/** The model answered, but not with anything the app can use. */
+export class ModelResponseError extends Error {
+    constructor(
+        message: string,
+        public readonly problem: ModelResponseProblem,
+        public readonly issues: string[] = [],
+        public readonly responseText = '',
+    ) {
+        super(message);
+        this.name = 'ModelResponseError';
+    }
+}
+
+const FENCED_BLOCK = /```(?:json)?\s*([\s\S]*?)```/i;
+
+// Finds the end of the JSON value starting at `start`, skipping over brackets
+// inside strings. Returns -1 when the value is cut off.
+function findClosingBracket(text: string, start: number): number {
+    const stack: string[] = [];
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            stack.push(char === '{' ? '}' : ']');
+        } else if (char === '}' || char === ']') {
+            if (stack.pop() !== char) return -1;
+            if (stack.length === 0) return i;
+        }
+    }
+    return -1;
+}
+
+function tryParse(text: string): { value: unknown } | null {
+    try {
+        return { value: JSON.parse(text) };
+    } catch {
+        try {
+            return { value: JSON.parse(text.replace(/,\s*([}\]])/g, '$1')) };
+        } catch {
+            return null;
+        }
+    }
+}
+
+/**
+ * Pulls the first JSON object or array out of a model response, tolerating
+ * code fences, surrounding prose and trailing commas. Returns null when no
+ * parseable JSON is present.
+ */
+export function extractJson(text: string): { value: unknown } | null {
+    const trimmed = text.trim();
+    const fenced = trimmed.match(FENCED_BLOCK)?.[1]?.trim();
+    for (const candidate of fenced ? [fenced, trimmed] : [trimmed]) {
+        const direct = tryParse(candidate);
+        if (direct) return direct;
+
+        for (let start = candidate.search(/[{[]/); start !== -1; ) {
+            const end = findClosingBracket(candidate, start);
+            if (end !== -1) {
+                const embedded = tryParse(candidate.slice(start, end + 1));
+                if (embedded) return embedded;
+            }
+            const next = candidate.slice(start + 1).search(/[{[]/);
+            start = next === -1 ? -1 : start + 1 + next;
+        }
+    }
+    return null;
+}
+
+export interface ParseModelJsonOptions {
+    /** Names the data in user-facing messages, e.g. "nearby places". */
+    label: string;
+    /**
+     * Asked once for a corrected response when the first one cannot be used.
+     * Receives the problems found and the text that had them.
+     */
+    repair?: (issues: string[], responseText: string) => Promise<string>;
+}
+
+function check<T>(text: string, validator: Validator<T>, label: string): { value: T } | ModelResponseError {
+    if (!text.trim()) {
+        return new ModelResponseError(`No ${label} came back.`, 'empty');
+    }
+    const extracted = extractJson(text);
+    if (!extracted) {
+        return new ModelResponseError(`The ${label} came back in a format we couldn't read.`, 'malformed', ['The response did not contain parseable JSON.'], text);
+    }
+    const result = validator(extracted.value, '');
+    if (result.ok === false) {
+        return new ModelResponseError(`The ${label} came back incomplete.`, 'invalid', result.issues, text);
+    }
+    if (result.warnings.length) {
+        console.warn(`Corrected or dropped parts of the ${label} response:`, result.warnings);
+    }
+    return { value: result.value };
+}
+
+/**
+ * Extracts and validates JSON from a model response. If it cannot be used and
+ * `repair` is given, the model gets one chance to fix its answer before a
+ * `ModelResponseError` is thrown.
+ */
+export async function parseModelJson<T>(text: string, validator: Validator<T>, { label, repair }: ParseModelJsonOptions): Promise<T> {
+    const first = check(text, validator, label);
+    if (!(first instanceof ModelResponseError)) return first.value;
+    if (!repair) throw first;
+
+    let repairedText: string;
+    try {
+        repairedText = await repair(first.issues.length ? first.issues : [first.message], text);
+    } catch (error) {
+        console.error(`Repair request for the ${label} response failed:`, error);
+        throw first;
+    }
+
+    const second = check(repairedText, validator, label);
+    if (second instanceof ModelResponseError) throw second;
+    return second.value;
+}
@@ -0,0 +1,138 @@
+// Tolerant parser for JSON that is still being streamed in. Whatever has
+// arrived so far is returned; containers that have not seen their closing
+// bracket yet are reported through `isClosed` so callers can tell a finished
+// object apart from one that is still growing.
+
+export interface PartialJsonResult {
+    value: unknown;
+    isClosed: (node: unknown) => boolean;
+}
+
+class EndOfInput extends Error {}
+
+export function parsePartialJson(text: string): PartialJsonResult {
+    const closed = new WeakSet<object>();
+    let pos = 0;
+
+    const skipWhitespace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) pos++;
+    };
+
+    const parseString = (): { value: string; done: boolean } => {
+        pos++; // opening quote
+        let result = '';
+        while (pos < text.length) {
+            const ch = text[pos];
+            if (ch === '"') {
+                pos++;
+                return { value: result, done: true };
+            }
+            if (ch === '\\') {
+                if (pos + 1 >= text.length) break;
+                const esc = text[pos + 1];
+                if (esc === 'u') {
+                    if (pos + 6 > text.length) break;
+                    result += String.fromCharCode(parseInt(text.slice(pos + 2, pos + 6), 16));
+                    pos += 6;
+                    continue;
+                }
+                const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+                result += escapes[esc] ?? esc;
+                pos += 2;
+                continue;
+            }
+            result += ch;
+            pos++;
+        }
+        pos = text.length;
+        return { value: result, done: false };
+    };
+
+    const parseValue = (): unknown => {
+        skipWhitespace();
+        if (pos >= text.length) throw new EndOfInput();
+        const ch = text[pos];
+
+        if (ch === '{') {
+            pos++;
+            const obj: Record<string, unknown> = {};
+            while (true) {
+                skipWhitespace();
+                if (pos >= text.length) return obj;
+                if (text[pos] === '}') {
+                    pos++;
+                    closed.add(obj);
+                    return obj;
+                }
+                if (text[pos] === ',') {
+                    pos++;
+                    continue;
+                }
+                if (text[pos] !== '"') throw new SyntaxError(`Unexpected '${text[pos]}' at ${pos}`);
+                const key = parseString();
+                if (!key.done) return obj;
+                skipWhitespace();
+                if (pos >= text.length) return obj;
+                if (text[pos] !== ':') throw new SyntaxError(`Expected ':' at ${pos}`);
+                pos++;
+                try {
+                    obj[key.value] = parseValue();
+                } catch (e) {
+                    if (e instanceof EndOfInput) return obj;
+                    throw e;
+                }
+            }
+        }
+
+        if (ch === '[') {
+            pos++;
+            const arr: unknown[] = [];
+            while (true) {
+                skipWhitespace();
+                if (pos >= text.length) return arr;
+                if (text[pos] === ']') {
+                    pos++;
+                    closed.add(arr);
+                    return arr;
+                }
+                if (text[pos] === ',') {
+                    pos++;
+                    continue;
+                }
+                try {
+                    arr.push(parseValue());
+                } catch (e) {
+                    if (e instanceof EndOfInput) return arr;
+                    throw e;
+                }
+            }
+        }
+
+        if (ch === '"') {
+            return parseString().value;
+        }
+
+        const literal = /^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/.exec(text.slice(pos));
+        if (literal) {
+            pos += literal[0].length;
+            // A number at the very end may still be receiving digits.
+            if (pos >= text.length && /\d$/.test(literal[0])) throw new EndOfInput();
+            return JSON.parse(literal[0]);
+        }
+        if (/^(t|tr|tru|f|fa|fal|fals|n|nu|nul|-)$/.test(text.slice(pos))) throw new EndOfInput();
+        throw new SyntaxError(`Unexpected '${ch}' at ${pos}`);
+    };
+
+    let value: unknown;
+    try {
+        value = parseValue();
+    } catch (e) {
+        if (!(e instanceof EndOfInput)) throw e;
+        value = undefined;
+    }
+
+    return {
+        value,
+        isClosed: (node: unknown) => typeof node === 'object' && node !== null && closed.has(node),
+    };
+}
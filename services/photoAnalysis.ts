@@ -0,0 +1,73 @@
+import { Activity, ChatMessage, Conversation, LandmarkIdentification, PhotoAnalysis } from '../types';
+import { createConversation, saveConversation } from './conversations';
+
+export function analysisTitle(analysis: PhotoAnalysis): string {
+    switch (analysis.mode) {
+        case 'menu': return analysis.result.restaurantName ? `Menu: ${analysis.result.restaurantName}` : 'Menu translation';
+        case 'landmark': return analysis.result.name;
+        case 'sign': return analysis.result.kind === 'timetable' ? 'Timetable' : 'Sign translation';
+    }
+}
+
+const bullets = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+/** Plain-text version of a result, used as chat context. */
+export function describeAnalysis(analysis: PhotoAnalysis): string {
+    switch (analysis.mode) {
+        case 'menu': {
+            const { restaurantName, language, dishes } = analysis.result;
+            const header = `Menu${restaurantName ? ` from ${restaurantName}` : ''}${language ? ` (translated from ${language})` : ''}:`;
+            const lines = dishes.map(dish => {
+                const original = dish.originalName && dish.originalName !== dish.name ? ` (${dish.originalName})` : '';
+                const price = dish.price ? ` — ${dish.price}` : '';
+                const allergens = dish.allergens.length ? ` Allergens: ${dish.allergens.join(', ')}.` : '';
+                return `- ${dish.name}${original}${price}: ${dish.description}${allergens}`;
+            });
+            return [header, ...lines].join('\n');
+        }
+        case 'landmark': {
+            const { name, city, country, summary, history, nearbyTips } = analysis.result;
+            const place = [city, country].filter(Boolean).join(', ');
+            return [
+                `Landmark: ${name}${place ? `, ${place}` : ''}`,
+                summary,
+                history && `History: ${history}`,
+                nearbyTips.length > 0 && `Tips:\n${bullets(nearbyTips)}`,
+            ].filter(Boolean).join('\n\n');
+        }
+        case 'sign': {
+            const { kind, language, translation, keyPoints, timetable } = analysis.result;
+            return [
+                `${kind === 'timetable' ? 'Timetable' : 'Sign'}${language ? ` (translated from ${language})` : ''}:`,
+                translation,
+                keyPoints.length > 0 && `Key points:\n${bullets(keyPoints)}`,
+                timetable.length > 0 && `Schedule:\n${bullets(timetable.map(row => [row.time, row.destination, row.details].filter(Boolean).join(' — ')))}`,
+            ].filter(Boolean).join('\n\n');
+        }
+    }
+}
+
+/**
+ * Starts a conversation that opens with the result, so follow-up questions are
+ * answered with the photo's contents in the history.
+ */
+export async function startChatFromAnalysis(analysis: PhotoAnalysis): Promise<Conversation> {
+    const messages: ChatMessage[] = [
+        { role: 'user', contentType: 'text', content: `Here is what a photo I took says.\n\n${describeAnalysis(analysis)}` },
+        { role: 'model', contentType: 'text', content: "Thanks, I've read it. What would you like to know?" },
+    ];
+    const conversation = { ...createConversation(messages), title: analysisTitle(analysis) };
+    await saveConversation(conversation);
+    return conversation;
+}
+
+export function landmarkActivity(landmark: LandmarkIdentification): Activity {
+    return {
+        time: '',
+        description: landmark.summary ? `Visit ${landmark.name}. ${landmark.summary}` : `Visit ${landmark.name}`,
+        type: 'activity',
+        placeName: landmark.name,
+        location: landmark.location,
+        durationMinutes: landmark.visitDurationMinutes,
+    };
+}
@@ -0,0 +1,140 @@
+import { Activity, PlaceCategory, Restaurant } from '../types';
+
+// Sorting and filtering for the places Explore recommends. The model returns
+// free-form `types` ("ramen_restaurant", "Hotel", "night market"), so they are
+// matched against keywords to put each place in a fixed set of categories.
+
+export type PlaceSort = 'distance' | 'rating' | 'reviews';
+
+export interface PlaceFilter {
+    /** Places in any of these categories are kept; empty keeps every place. */
+    categories: PlaceCategory[];
+    minRating: number;
+}
+
+export const DEFAULT_PLACE_FILTER: PlaceFilter = { categories: [], minRating: 0 };
+
+export const PLACE_CATEGORIES: PlaceCategory[] = ['food', 'lodging', 'attraction', 'nightlife', 'shopping'];
+
+export const PLACE_CATEGORY_LABELS: Record<PlaceCategory, string> = {
+    food: 'Food',
+    lodging: 'Stays',
+    attraction: 'Sights',
+    nightlife: 'Nightlife',
+    shopping: 'Shopping',
+};
+
+export const PLACE_SORT_LABELS: Record<PlaceSort, string> = {
+    distance: 'Nearest',
+    rating: 'Top rated',
+    reviews: 'Most reviewed',
+};
+
+export const MIN_RATING_OPTIONS = [0, 3.5, 4, 4.5];
+
+// Checked in order, so a "hotel restaurant" counts as lodging as well as food
+// but shows the lodging icon.
+const CATEGORY_KEYWORDS: [PlaceCategory, RegExp][] = [
+    ['lodging', /hotel|lodging|hostel|motel|resort|inn\b|guest ?house|homestay|ryokan|accommodation|campground|bed and breakfast/],
+    ['nightlife', /bar\b|pub\b|night ?club|nightlife|izakaya|brewery|lounge|karaoke|casino|winery/],
+    ['food', /restaurant|food|cafe|café|coffee|bakery|meal|dining|eatery|bistro|hawker|diner|dessert|ice cream|tea house|street food/],
+    ['shopping', /shop|store|market|mall|boutique|bazaar|souvenir|outlet/],
+    ['attraction', /attraction|museum|park|temple|shrine|church|mosque|landmark|monument|gallery|zoo|aquarium|beach|viewpoint|garden|palace|castle|historic|tourist|point of interest|point_of_interest|place of worship|place_of_worship|amusement|theater|theatre|stadium|natural feature|natural_feature/],
+];
+
+/** The categories a place's types fall into, most specific first. */
+export function placeCategories(place: Restaurant): PlaceCategory[] {
+    const types = (place.types ?? []).map(placeTypeLabel);
+    return CATEGORY_KEYWORDS
+        .filter(([, keywords]) => types.some(type => keywords.test(type)))
+        .map(([category]) => category);
+}
+
+/**
+ * Identifies the same place across searches, by its name and position to
+ * about 100 m. The placeId can't be used: when the model leaves it out the
+ * validator generates a new one on every search.
+ */
+export function placeKey(place: Restaurant): string {
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    const name = place.name.trim().replace(/\s+/g, ' ').toLowerCase();
+    return `${name}:${round(place.location.lat)},${round(place.location.lng)}`;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/** Great-circle distance in km. */
+export function haversineKm(from: { lat: number, lng: number }, to: { lat: number, lng: number }): number {
+    const dLat = toRadians(to.lat - from.lat);
+    const dLng = toRadians(to.lng - from.lng);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/** Sets each place's `distance` from `origin`, the point the places were searched around. */
+export function withDistances(places: Restaurant[], origin: { lat: number, lng: number }): Restaurant[] {
+    return places.map(place => ({ ...place, distance: haversineKm(origin, place.location) }));
+}
+
+export function filterPlaces(places: Restaurant[], filter: PlaceFilter): Restaurant[] {
+    return places.filter(place =>
+        place.rating >= filter.minRating &&
+        (filter.categories.length === 0 || placeCategories(place).some(category => filter.categories.includes(category)))
+    );
+}
+
+/** Sorts a copy of `places`; ties keep the order the model returned them in. */
+export function sortPlaces(places: Restaurant[], sort: PlaceSort): Restaurant[] {
+    const compare: Record<PlaceSort, (a: Restaurant, b: Restaurant) => number> = {
+        // Places without a distance go last.
+        distance: (a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity),
+        rating: (a, b) => b.rating - a.rating || b.reviewCount - a.reviewCount,
+        reviews: (a, b) => b.reviewCount - a.reviewCount,
+    };
+    return [...places].sort(compare[sort]);
+}
+
+export function formatDistance(km: number): string {
+    if (km < 1) return `${Math.max(10, Math.round(km * 100) * 10)} m`;
+    return `${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
+}
+
+export function formatRating(place: Restaurant): string {
+    return place.reviewCount > 0
+        ? `${place.rating.toFixed(1)} (${place.reviewCount.toLocaleString()})`
+        : place.rating.toFixed(1);
+}
+
+/** The place as an itinerary activity, for adding it to a trip day. */
+export function placeActivity(place: Restaurant): Activity {
+    const category = placeCategories(place)[0];
+    return {
+        time: '',
+        description: `Visit ${place.name}`,
+        type: category === 'lodging' ? 'hotel' : category === 'food' || category === 'nightlife' ? 'dining' : 'activity',
+        placeName: place.name,
+        location: place.location,
+    };
+}
+
+/**
+ * The opening message of a chat about one place. It spells out the details
+ * that identify the place, so later questions in the chat are about it and not
+ * somewhere with a similar name.
+ */
+export function placeChatPrompt(place: Restaurant): string {
+    const details = [
+        `- Name: ${place.name}`,
+        place.vicinity && `- Address: ${place.vicinity}`,
+        place.types?.length && `- Type: ${place.types.map(placeTypeLabel).join(', ')}`,
+        place.rating > 0 && `- Rating: ${place.rating.toFixed(1)} from ${place.reviewCount.toLocaleString()} reviews`,
+        `- Coordinates: ${place.location.lat.toFixed(5)}, ${place.location.lng.toFixed(5)}`,
+    ].filter(Boolean);
+    return `I have some questions about this place:\n${details.join('\n')}\n\nWhat is it known for, and what should I know before going?`;
+}
+
+/** 'night_club' → 'night club'. */
+export function placeTypeLabel(type: string): string {
+    return type.replace(/_/g, ' ').toLowerCase();
+}
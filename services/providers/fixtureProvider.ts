@@ -0,0 +1,204 @@
+import { LiveServerMessage } from '@google/genai';
+import { LiveSessionCallbacks } from '../../types';
+import { AIProvider, LiveSessionHandle, TextResult, VideoOperation } from './types';
+
+// Replays AI responses from JSON files under public/fixtures, so the app runs
+// without a network or an API key. In record mode every call goes to the
+// upstream provider and its response is written back as a new fixture through
+// the dev server (see the fixture recorder plugin in vite.config.ts).
+//
+// Fixtures live at `fixtures/<purpose>/<hash>.json`, where the hash covers the
+// full request. When no exact match exists, `fixtures/<purpose>/default.json`
+// is used, which lets a single recording stand in for any chat message.
+
+export type FixtureMode = 'replay' | 'record';
+
+export class FixtureNotFoundError extends Error {
+    constructor(public readonly purpose: string, public readonly key: string) {
+        super(`No fixture recorded for "${purpose}" (${key}). Record one with AI_FIXTURE_MODE=record.`);
+        this.name = 'FixtureNotFoundError';
+    }
+}
+
+interface FixtureFile<T> {
+    purpose: string;
+    request: unknown;
+    response: T;
+    recordedAt: string;
+}
+
+interface RecordedStream {
+    chunks: string[];
+}
+
+interface RecordedLiveSession {
+    messages: { at: number; message: LiveServerMessage }[];
+}
+
+const STREAM_CHUNK_DELAY_MS = 40;
+const RECORDER_ENDPOINT = '/__fixtures';
+
+// Stable JSON so key order never changes the hash. Abort signals are runtime
+// state rather than part of the request.
+function canonicalize(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(canonicalize);
+    if (value && typeof value === 'object') {
+        if (typeof AbortSignal !== 'undefined' && value instanceof AbortSignal) return undefined;
+        return Object.fromEntries(
+            Object.keys(value).sort().map(key => [key, canonicalize((value as Record<string, unknown>)[key])])
+        );
+    }
+    return value;
+}
+
+async function fixtureKey(request: unknown): Promise<string> {
+    const bytes = new TextEncoder().encode(JSON.stringify(canonicalize(request)));
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest).slice(0, 12), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+export function createFixtureProvider(mode: FixtureMode, upstream: AIProvider, baseUrl = '/fixtures'): AIProvider {
+    async function load<T>(purpose: string, request: unknown): Promise<T> {
+        const key = await fixtureKey(request);
+        for (const name of [key, 'default']) {
+            const response = await fetch(`${baseUrl}/${purpose}/${name}.json`);
+            // Vite answers unknown paths with index.html, so check the type too.
+            if (response.ok && response.headers.get('content-type')?.includes('json')) {
+                const file = await response.json() as FixtureFile<T>;
+                return file.response;
+            }
+        }
+        throw new FixtureNotFoundError(purpose, key);
+    }
+
+    async function save<T>(purpose: string, request: unknown, response: T): Promise<void> {
+        const key = await fixtureKey(request);
+        const file: FixtureFile<T> = { purpose, request: canonicalize(request), response, recordedAt: new Date().toISOString() };
+        try {
+            const result = await fetch(RECORDER_ENDPOINT, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ path: `${purpose}/${key}.json`, file }),
+            });
+            if (!result.ok) throw new Error(`status ${result.status}`);
+        } catch (error) {
+            console.warn(`Could not record fixture ${purpose}/${key}. Recording only works with the dev server.`, error);
+        }
+    }
+
+    async function replayOrRecord<T>(purpose: string, request: unknown, call: () => Promise<T>): Promise<T> {
+        if (mode === 'replay') return load<T>(purpose, request);
+        const response = await call();
+        await save(purpose, request, response);
+        return response;
+    }
+
+    return {
+        name: `fixtures:${mode}`,
+
+        generateText: request => replayOrRecord<TextResult>(request.purpose, request, () => upstream.generateText(request)),
+
+        async *streamText(request) {
+            if (mode === 'replay') {
+                const { chunks } = await load<RecordedStream>(request.purpose, request);
+                for (const chunk of chunks) {
+                    await sleep(STREAM_CHUNK_DELAY_MS, request.abortSignal);
+                    if (request.abortSignal?.aborted) return;
+                    yield chunk;
+                }
+                return;
+            }
+            const chunks: string[] = [];
+            for await (const chunk of upstream.streamText(request)) {
+                chunks.push(chunk);
+                yield chunk;
+            }
+            if (!request.abortSignal?.aborted) await save<RecordedStream>(request.purpose, request, { chunks });
+        },
+
+        searchGrounded: request => replayOrRecord<TextResult>(request.purpose, request, () => upstream.searchGrounded(request)),
+
+        searchPlaces: request => replayOrRecord<TextResult>(request.purpose, request, () => upstream.searchPlaces(request)),
+
+        generateImage: request => replayOrRecord('image', request, () => upstream.generateImage(request)),
+
+        editImage: request => replayOrRecord('image-edit', request, () => upstream.editImage(request)),
+
+        generateVideo: request => replayOrRecord<VideoOperation>('video', request, () => upstream.generateVideo(request)),
+
+        // Keyed by operation name only, so the last recorded poll (usually the
+        // finished one) is what replays.
+        getVideoOperation: (operation, abortSignal) => replayOrRecord<VideoOperation>('video-status', { name: operation.name }, () => upstream.getVideoOperation(operation, abortSignal)),
+
+        // Replayed operations point at a file served next to the fixtures, so
+        // there is nothing to record here.
+        async fetchVideo(videoUri, abortSignal) {
+            if (mode === 'record') return upstream.fetchVideo(videoUri, abortSignal);
+            const response = await fetch(videoUri, { signal: abortSignal });
+            if (!response.ok) throw new FixtureNotFoundError('video-file', videoUri);
+            return response.blob();
+        },
+
+        generateSpeech: request => replayOrRecord('speech', request, () => upstream.generateSpeech(request)),
+
+        async connectLive(request, callbacks) {
+            if (mode === 'record') return recordLiveSession(request, callbacks);
+            const { messages } = await load<RecordedLiveSession>('live', request);
+            return replayLiveSession(messages, callbacks);
+        },
+    };
+
+    async function recordLiveSession(request: Parameters<AIProvider['connectLive']>[0], callbacks: LiveSessionCallbacks): Promise<LiveSessionHandle> {
+        const startedAt = Date.now();
+        const messages: RecordedLiveSession['messages'] = [];
+        let saved = false;
+        const persist = () => {
+            if (saved || messages.length === 0) return;
+            saved = true;
+            save<RecordedLiveSession>('live', request, { messages });
+        };
+        const session = await upstream.connectLive(request, {
+            ...callbacks,
+            onmessage: (message: LiveServerMessage) => {
+                // Round-trip through JSON so getters on the SDK class are dropped,
+                // matching what replay hands to the app.
+                messages.push({ at: Date.now() - startedAt, message: JSON.parse(JSON.stringify(message)) });
+                callbacks.onmessage(message);
+            },
+            onclose: (e) => {
+                persist();
+                callbacks.onclose(e);
+            },
+        });
+        return {
+            sendRealtimeInput: input => session.sendRealtimeInput(input),
+            close: () => {
+                persist();
+                session.close();
+            },
+        };
+    }
+
+    function replayLiveSession(messages: RecordedLiveSession['messages'], callbacks: LiveSessionCallbacks): LiveSessionHandle {
+        const timers: ReturnType<typeof setTimeout>[] = [];
+        let closed = false;
+        timers.push(setTimeout(() => callbacks.onopen(), 0));
+        for (const { at, message } of messages) {
+            timers.push(setTimeout(() => callbacks.onmessage(message), at));
+        }
+        return {
+            sendRealtimeInput: () => {},
+            close: () => {
+                if (closed) return;
+                closed = true;
+                timers.forEach(clearTimeout);
+                callbacks.onclose(new CloseEvent('close', { code: 1000, reason: 'Fixture session closed' }));
+            },
+        };
+    }
+}
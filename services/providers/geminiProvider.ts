@@ -0,0 +1,228 @@
+import { GoogleGenAI, GenerateContentResponse, GenerateVideosOperation, FinishReason, Modality } from "@google/genai";
+import { AIRequestError } from '../aiErrors';
+import { AIProvider, TextRequest, TextResult, VideoOperation } from './types';
+
+async function getGenAI(): Promise<GoogleGenAI> {
+    if (!process.env.API_KEY) throw new AIRequestError("No Gemini API key is configured.", 'auth');
+    if ((window as any).aistudio && await (window as any).aistudio.hasSelectedApiKey()) {
+         return new GoogleGenAI({ apiKey: process.env.API_KEY });
+    }
+    return new GoogleGenAI({ apiKey: process.env.API_KEY });
+}
+
+function toConfig(request: TextRequest) {
+    return {
+        systemInstruction: request.systemInstruction,
+        responseMimeType: request.responseMimeType,
+        responseSchema: request.responseSchema,
+        abortSignal: request.abortSignal,
+        ...(request.thinkingBudget !== undefined ? { thinkingConfig: { thinkingBudget: request.thinkingBudget } } : {}),
+    };
+}
+
+// Blocked prompts come back as a normal response with no text.
+function throwIfBlocked(response: GenerateContentResponse) {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason === FinishReason.SAFETY && !response.text)) {
+        throw new AIRequestError(`The request was blocked (${blockReason ?? finishReason}).`, 'safety');
+    }
+}
+
+function toTextResult(response: GenerateContentResponse): TextResult {
+    throwIfBlocked(response);
+    return {
+        text: response.text ?? '',
+        groundingChunks: response.candidates?.[0]?.groundingMetadata?.groundingChunks,
+        groundingSupports: response.candidates?.[0]?.groundingMetadata?.groundingSupports,
+    };
+}
+
+function toVideoOperation(operation: GenerateVideosOperation): VideoOperation {
+    const error = operation.error as { message?: string } | undefined;
+    return {
+        name: operation.name ?? '',
+        done: !!operation.done,
+        videoUri: operation.response?.generatedVideos?.[0]?.video?.uri,
+        error: error ? error.message ?? 'Video generation failed.' : undefined,
+    };
+}
+
+export const geminiProvider: AIProvider = {
+    name: 'gemini',
+
+    async generateText(request) {
+        const ai = await getGenAI();
+        return toTextResult(await ai.models.generateContent({
+            model: request.model,
+            contents: request.contents,
+            config: toConfig(request),
+        }));
+    },
+
+    async *streamText(request) {
+        const ai = await getGenAI();
+        const stream = await ai.models.generateContentStream({
+            model: request.model,
+            contents: request.contents,
+            config: toConfig(request),
+        });
+        for await (const chunk of stream) {
+            if (request.abortSignal?.aborted) return;
+            throwIfBlocked(chunk);
+            yield chunk.text ?? '';
+        }
+    },
+
+    async searchGrounded(request) {
+        const ai = await getGenAI();
+        return toTextResult(await ai.models.generateContent({
+            model: request.model,
+            contents: request.contents,
+            config: {
+                ...toConfig(request),
+                tools: [{ googleSearch: {} }],
+            },
+        }));
+    },
+
+    async searchPlaces(request) {
+        const ai = await getGenAI();
+        return toTextResult(await ai.models.generateContent({
+            model: request.model,
+            contents: request.contents,
+            config: {
+                ...toConfig(request),
+                tools: [{ googleMaps: {} }],
+                toolConfig: {
+                    retrievalConfig: {
+                        latLng: {
+                            latitude: request.latitude,
+                            longitude: request.longitude,
+                        }
+                    }
+                }
+            },
+        }));
+    },
+
+    async generateImage({ prompt, aspectRatio, abortSignal }) {
+        const ai = await getGenAI();
+        const response = await ai.models.generateImages({
+            model: 'imagen-4.0-generate-001',
+            prompt,
+            config: {
+                numberOfImages: 1,
+                outputMimeType: 'image/jpeg',
+                aspectRatio,
+                abortSignal,
+            },
+        });
+        const base64ImageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+        if (!base64ImageBytes) {
+            throw new Error("No image generated");
+        }
+        return `data:image/jpeg;base64,${base64ImageBytes}`;
+    },
+
+    async editImage({ base64Image, mimeType, prompt, abortSignal }) {
+        const ai = await getGenAI();
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash-image',
+            contents: {
+                parts: [
+                    { inlineData: { data: base64Image, mimeType } },
+                    { text: prompt },
+                ],
+            },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                abortSignal,
+            },
+        });
+
+        for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+            if (part.inlineData) {
+                return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+            }
+        }
+        throw new Error("No image generated");
+    },
+
+    async generateVideo({ prompt, image, aspectRatio, abortSignal }) {
+        if ((window as any).aistudio) {
+            if (!(await (window as any).aistudio.hasSelectedApiKey())) {
+                await (window as any).aistudio.openSelectKey();
+            }
+        }
+
+        const ai = await getGenAI();
+        const operation = await ai.models.generateVideos({
+            model: 'veo-3.1-fast-generate-preview',
+            prompt,
+            ...(image ? { image: { imageBytes: image.base64, mimeType: image.mimeType } } : {}),
+            config: {
+                numberOfVideos: 1,
+                resolution: '720p',
+                aspectRatio,
+                abortSignal,
+            }
+        });
+        return toVideoOperation(operation);
+    },
+
+    async getVideoOperation({ name }, abortSignal) {
+        const ai = await getGenAI();
+        // The SDK needs its own operation class to poll; only the name matters.
+        const operation = new GenerateVideosOperation();
+        operation.name = name;
+        return toVideoOperation(await ai.operations.getVideosOperation({ operation, config: { abortSignal } }));
+    },
+
+    async fetchVideo(videoUri, abortSignal) {
+        // Generated files are only served to requests that carry the API key.
+        const separator = videoUri.includes('?') ? '&' : '?';
+        const response = await fetch(`${videoUri}${separator}key=${process.env.API_KEY}`, { signal: abortSignal });
+        if (!response.ok) throw new Error(`Video download failed with status ${response.status}`);
+        return response.blob();
+    },
+
+    async generateSpeech({ text, voiceName, abortSignal }) {
+        const ai = await getGenAI();
+        const response = await ai.models.generateContent({
+            model: "gemini-2.5-flash-preview-tts",
+            contents: [{ parts: [{ text }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: {
+                        prebuiltVoiceConfig: { voiceName },
+                    },
+                },
+                abortSignal,
+            },
+        });
+        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (!base64Audio) {
+            throw new Error("No audio data received from TTS API.");
+        }
+        return base64Audio;
+    },
+
+    async connectLive({ model, systemInstruction, voiceName }, callbacks) {
+        const ai = await getGenAI();
+        return ai.live.connect({
+            model,
+            callbacks,
+            config: {
+                responseModalities: [Modality.AUDIO],
+                inputAudioTranscription: {},
+                outputAudioTranscription: {},
+                speechConfig: {
+                    voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+                },
+                systemInstruction,
+            },
+        });
+    },
+};
@@ -0,0 +1,44 @@
+import { AIProvider } from './types';
+import { geminiProvider } from './geminiProvider';
+import { createFixtureProvider, FixtureMode } from './fixtureProvider';
+import { withRequestPolicy } from './requestPolicy';
+
+export type { AIProvider } from './types';
+export { FixtureNotFoundError } from './fixtureProvider';
+
+let activeProvider: AIProvider | null = null;
+
+function createConfiguredProvider(): AIProvider {
+    switch (process.env.AI_PROVIDER) {
+        case 'fixtures': {
+            const mode: FixtureMode = process.env.AI_FIXTURE_MODE === 'record' ? 'record' : 'replay';
+            return createFixtureProvider(mode, geminiProvider);
+        }
+        case 'gemini':
+        case undefined:
+        case '':
+            return geminiProvider;
+        default:
+            console.warn(`Unknown AI_PROVIDER "${process.env.AI_PROVIDER}", falling back to Gemini.`);
+            return geminiProvider;
+    }
+}
+
+/**
+ * The backend chosen by the AI_PROVIDER setting ('gemini' by default, or
+ * 'fixtures'), with timeouts, retries and error classification applied.
+ */
+export function getProvider(): AIProvider {
+    if (!activeProvider) activeProvider = withRequestPolicy(createConfiguredProvider());
+    return activeProvider;
+}
+
+/** Whether AI calls go through the fixture provider rather than straight to a live model. */
+export function isUsingFixtures(): boolean {
+    return getProvider().name.startsWith('fixtures:');
+}
+
+/** Swaps the active backend, e.g. to point a demo or test at fixtures. */
+export function setProvider(provider: AIProvider): void {
+    activeProvider = withRequestPolicy(provider);
+}
@@ -0,0 +1,145 @@
+import { AIRequestError, isAbortError, toAIRequestError } from '../aiErrors';
+import { FixtureNotFoundError } from './fixtureProvider';
+import { AIProvider, TextRequest } from './types';
+
+// Wraps a provider so every call gets a timeout, is retried with exponential
+// backoff and jitter when the failure is temporary (rate limits, 5xx, dropped
+// connections), and fails with an AIRequestError the UI can explain. A call
+// cancelled through its abortSignal is never retried and rethrows as is.
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15 * 1000;
+
+const TIMEOUTS_MS = {
+    text: 60 * 1000,
+    // Search and maps grounding run tool calls before answering.
+    grounded: 90 * 1000,
+    image: 2 * 60 * 1000,
+    speech: 60 * 1000,
+    video: 60 * 1000,
+    // Streams time out when no chunk arrives for this long.
+    streamIdle: 45 * 1000,
+};
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+function backoffMs(attempt: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) return retryAfterMs;
+    // Full jitter keeps many clients that failed together from retrying together.
+    return Math.round(Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(abortError());
+        }, { once: true });
+    });
+}
+
+/**
+ * Runs `run` with a signal that aborts when `outer` does or after `timeoutMs`.
+ * Rejects with a timeout error even if `run` ignores the signal.
+ */
+async function withTimeout<T>(timeoutMs: number, outer: AbortSignal | undefined, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    outer?.addEventListener('abort', forwardAbort, { once: true });
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            controller.signal.addEventListener('abort', () => reject(timedOut
+                ? new AIRequestError(`No response after ${Math.round(timeoutMs / 1000)} s.`, 'timeout')
+                : abortError()), { once: true });
+            run(controller.signal).then(resolve, reject);
+        });
+    } finally {
+        clearTimeout(timer);
+        outer?.removeEventListener('abort', forwardAbort);
+    }
+}
+
+/** Decides whether to try again after `error`; throws when not. */
+async function afterFailure(label: string, error: unknown, attempt: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted || isAbortError(error) || error instanceof FixtureNotFoundError) throw error;
+    const failure = toAIRequestError(error);
+    if (!failure.retryable || attempt + 1 >= MAX_ATTEMPTS) throw failure;
+    const delay = backoffMs(attempt, failure.retryAfterMs);
+    console.warn(`${label} failed (${failure.kind}), retrying in ${delay} ms:`, failure.message);
+    await sleep(delay, signal);
+}
+
+async function call<T>(label: string, timeoutMs: number, signal: AbortSignal | undefined, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await withTimeout(timeoutMs, signal, run);
+        } catch (error) {
+            await afterFailure(label, error, attempt, signal);
+        }
+    }
+}
+
+export function withRequestPolicy(provider: AIProvider): AIProvider {
+    const text = (method: 'generateText' | 'searchGrounded', timeoutMs: number) => (request: TextRequest) =>
+        call(request.purpose, timeoutMs, request.abortSignal, abortSignal => provider[method]({ ...request, abortSignal }));
+
+    return {
+        name: provider.name,
+        generateText: text('generateText', TIMEOUTS_MS.text),
+        searchGrounded: text('searchGrounded', TIMEOUTS_MS.grounded),
+        searchPlaces: request =>
+            call(request.purpose, TIMEOUTS_MS.grounded, request.abortSignal, abortSignal => provider.searchPlaces({ ...request, abortSignal })),
+
+        // Retried only until the first chunk arrives: after that the caller has
+        // already shown part of the reply, so the error is passed on instead.
+        async *streamText(request) {
+            for (let attempt = 0; ; attempt++) {
+                const controller = new AbortController();
+                const forwardAbort = () => controller.abort();
+                request.abortSignal?.addEventListener('abort', forwardAbort, { once: true });
+                const chunks = provider.streamText({ ...request, abortSignal: controller.signal });
+                let received = false;
+                try {
+                    while (true) {
+                        const next = await withTimeout(TIMEOUTS_MS.streamIdle, controller.signal, () => chunks.next());
+                        if (next.done) return;
+                        received = true;
+                        yield next.value;
+                    }
+                } catch (error) {
+                    if (received) throw request.abortSignal?.aborted || isAbortError(error) ? error : toAIRequestError(error);
+                    await afterFailure(request.purpose, error, attempt, request.abortSignal);
+                } finally {
+                    request.abortSignal?.removeEventListener('abort', forwardAbort);
+                    controller.abort();
+                    chunks.return(undefined).catch(() => undefined);
+                }
+            }
+        },
+
+        generateImage: request =>
+            call('image', TIMEOUTS_MS.image, request.abortSignal, abortSignal => provider.generateImage({ ...request, abortSignal })),
+        editImage: request =>
+            call('image-edit', TIMEOUTS_MS.image, request.abortSignal, abortSignal => provider.editImage({ ...request, abortSignal })),
+        generateVideo: request =>
+            call('video', TIMEOUTS_MS.video, request.abortSignal, abortSignal => provider.generateVideo({ ...request, abortSignal })),
+        getVideoOperation: (operation, signal) =>
+            call('video-status', TIMEOUTS_MS.video, signal, abortSignal => provider.getVideoOperation(operation, abortSignal)),
+        fetchVideo: (videoUri, signal) =>
+            call('video-download', TIMEOUTS_MS.image, signal, abortSignal => provider.fetchVideo(videoUri, abortSignal)),
+        generateSpeech: request =>
+            call('speech', TIMEOUTS_MS.speech, request.abortSignal, abortSignal => provider.generateSpeech({ ...request, abortSignal })),
+        // Live sessions are long-lived sockets; only the error is translated.
+        connectLive: (request, callbacks) => provider.connectLive(request, callbacks).catch(error => {
+            throw toAIRequestError(error);
+        }),
+    };
+}
@@ -0,0 +1,100 @@
+import { Blob, ContentListUnion, GroundingChunk, GroundingSupport } from '@google/genai';
+import { AspectRatio, LiveSessionCallbacks, VideoAspectRatio } from '../../types';
+
+// The AI backends the app can run against. services/gemini.ts builds the
+// prompts and schemas; a provider only executes them, so the same feature code
+// works against the live Gemini API or against recorded fixtures.
+
+export interface TextRequest {
+    /**
+     * Short name for what the call is for, e.g. 'chat' or 'nearby-places'.
+     * Used in logs and to group recorded fixtures.
+     */
+    purpose: string;
+    model: string;
+    contents: ContentListUnion;
+    systemInstruction?: string;
+    responseMimeType?: string;
+    responseSchema?: unknown;
+    thinkingBudget?: number;
+    abortSignal?: AbortSignal;
+}
+
+export interface PlacesRequest extends TextRequest {
+    latitude: number;
+    longitude: number;
+}
+
+export interface TextResult {
+    text: string;
+    groundingChunks?: GroundingChunk[];
+    groundingSupports?: GroundingSupport[];
+}
+
+export interface ImageRequest {
+    prompt: string;
+    aspectRatio: AspectRatio;
+    abortSignal?: AbortSignal;
+}
+
+export interface ImageEditRequest {
+    base64Image: string;
+    mimeType: string;
+    prompt: string;
+    abortSignal?: AbortSignal;
+}
+
+export interface VideoRequest {
+    prompt: string;
+    image?: { base64: string; mimeType: string };
+    aspectRatio: VideoAspectRatio;
+    abortSignal?: AbortSignal;
+}
+
+/** A long-running video generation, in a form that can be stored and resumed. */
+export interface VideoOperation {
+    name: string;
+    done: boolean;
+    videoUri?: string;
+    error?: string;
+}
+
+export interface SpeechRequest {
+    text: string;
+    voiceName: string;
+    abortSignal?: AbortSignal;
+}
+
+export interface LiveRequest {
+    model: string;
+    systemInstruction: string;
+    voiceName: string;
+}
+
+export interface LiveSessionHandle {
+    sendRealtimeInput: (input: { media: Blob }) => void;
+    close: () => void;
+}
+
+export interface AIProvider {
+    readonly name: string;
+    /** Plain generation: chat turns, structured JSON, image and video analysis. */
+    generateText: (request: TextRequest) => Promise<TextResult>;
+    /** Streams the response text chunk by chunk. */
+    streamText: (request: TextRequest) => AsyncGenerator<string>;
+    /** Generation grounded with web search. */
+    searchGrounded: (request: TextRequest) => Promise<TextResult>;
+    /** Generation grounded with map data around a coordinate. */
+    searchPlaces: (request: PlacesRequest) => Promise<TextResult>;
+    /** Returns a data URL. */
+    generateImage: (request: ImageRequest) => Promise<string>;
+    /** Returns a data URL. */
+    editImage: (request: ImageEditRequest) => Promise<string>;
+    generateVideo: (request: VideoRequest) => Promise<VideoOperation>;
+    getVideoOperation: (operation: VideoOperation, abortSignal?: AbortSignal) => Promise<VideoOperation>;
+    /** Downloads the file behind a finished operation's `videoUri`. */
+    fetchVideo: (videoUri: string, abortSignal?: AbortSignal) => Promise<globalThis.Blob>;
+    /** Returns base64-encoded raw 24 kHz PCM audio. */
+    generateSpeech: (request: SpeechRequest) => Promise<string>;
+    connectLive: (request: LiveRequest, callbacks: LiveSessionCallbacks) => Promise<LiveSessionHandle>;
+}
@@ -0,0 +1,220 @@
+import { Collection, ContentCardData, SavedCard, SavedItem, SavedItemData } from '../types';
+import * as db from './db';
+import { placeKey } from './places';
+
+// Collections and the places, videos and cards saved into them. Items are kept
+// in memory for the save buttons scattered across the app and written through
+// to IndexedDB, so every button reflects a save made anywhere else.
+
+export const DEFAULT_COLLECTION_NAME = 'Favorites';
+
+export type SavedSort = 'newest' | 'oldest' | 'name' | 'type';
+
+export interface SavedState {
+    collections: Collection[];
+    items: SavedItem[];
+}
+
+type SavedListener = (state: SavedState) => void;
+
+let state: SavedState = { collections: [], items: [] };
+let loaded: Promise<void> | null = null;
+const listeners = new Set<SavedListener>();
+
+function emit() {
+    listeners.forEach(listener => listener(state));
+}
+
+function ensureLoaded(): Promise<void> {
+    if (!loaded) {
+        loaded = Promise.all([
+            db.getAll<Collection>(db.STORES.collections),
+            db.getAll<SavedItem>(db.STORES.savedItems),
+        ]).then(([collections, items]) => {
+            // Keys are recomputed so items saved under an older scheme still match.
+            state = {
+                collections: collections.sort((a, b) => a.createdAt - b.createdAt),
+                items: items.map(item => ({ ...item, key: savedItemKey(item.data) })),
+            };
+            emit();
+        }).catch(error => {
+            loaded = null;
+            throw error;
+        });
+    }
+    return loaded;
+}
+
+/** The storable part of a card that was not built from a place or video. */
+export function savedCard(card: ContentCardData): SavedCard {
+    const { icon, source, ...fields } = card;
+    return fields;
+}
+
+/** Identifies the same place or video wherever it was saved from. */
+export function savedItemKey(data: SavedItemData): string {
+    switch (data.kind) {
+        case 'place': return `place:${placeKey(data.place)}`;
+        case 'video': return `video:${data.video.videoId}`;
+        case 'card': return `card:${data.card.url ?? data.card.title}`;
+        case 'activity': return `activity:${data.activity.placeName ?? data.activity.description}|${data.destination}`;
+    }
+}
+
+export function savedItemTitle(data: SavedItemData): string {
+    switch (data.kind) {
+        case 'place': return data.place.name;
+        case 'video': return data.video.title;
+        case 'card': return data.card.title;
+        case 'activity': return data.activity.placeName || data.activity.description;
+    }
+}
+
+export function savedItemSubtitle(data: SavedItemData): string {
+    switch (data.kind) {
+        case 'place': return data.place.vicinity;
+        case 'video': return data.video.channelTitle;
+        case 'card': return data.card.subtitle;
+        case 'activity': return data.destination;
+    }
+}
+
+export function savedItemImage(data: SavedItemData): string | undefined {
+    switch (data.kind) {
+        case 'place': return data.place.imageUrl;
+        case 'video': return data.video.thumbnailUrl;
+        case 'card': return data.card.imageUrl;
+        case 'activity': return undefined;
+    }
+}
+
+export function savedItemLocation(data: SavedItemData): { lat: number, lng: number } | undefined {
+    switch (data.kind) {
+        case 'place': return data.place.location;
+        case 'video': return undefined;
+        case 'card': return data.card.location;
+        case 'activity': return data.activity.location;
+    }
+}
+
+/** Where the item opens: the video, the card's link or the place on a map. */
+export function savedItemUrl(data: SavedItemData): string | undefined {
+    if (data.kind === 'video') return `https://www.youtube.com/watch?v=${data.video.videoId}`;
+    if (data.kind === 'card' && data.card.url) return data.card.url;
+    if (data.kind === 'activity' && data.activity.url) return data.activity.url;
+    const location = savedItemLocation(data);
+    if (location) return `https://www.google.com/maps/search/?api=1&query=${location.lat},${location.lng}`;
+    return undefined;
+}
+
+const KIND_LABELS: Record<SavedItemData['kind'], string> = {
+    place: 'Place',
+    video: 'Video',
+    card: 'Guide',
+    activity: 'Place',
+};
+
+export function savedItemKindLabel(data: SavedItemData): string {
+    return KIND_LABELS[data.kind];
+}
+
+export function sortSavedItems(items: SavedItem[], sort: SavedSort): SavedItem[] {
+    const sorted = [...items];
+    switch (sort) {
+        case 'newest': return sorted.sort((a, b) => b.savedAt - a.savedAt);
+        case 'oldest': return sorted.sort((a, b) => a.savedAt - b.savedAt);
+        case 'name': return sorted.sort((a, b) => savedItemTitle(a.data).localeCompare(savedItemTitle(b.data)));
+        case 'type': return sorted.sort((a, b) => savedItemKindLabel(a.data).localeCompare(savedItemKindLabel(b.data)) || b.savedAt - a.savedAt);
+    }
+}
+
+export async function createCollection(name: string): Promise<Collection> {
+    await ensureLoaded();
+    const now = Date.now();
+    const collection: Collection = { id: crypto.randomUUID(), name: name.trim() || DEFAULT_COLLECTION_NAME, createdAt: now, updatedAt: now };
+    await db.put(db.STORES.collections, collection);
+    state = { ...state, collections: [...state.collections, collection] };
+    emit();
+    return collection;
+}
+
+export async function renameCollection(id: string, name: string): Promise<void> {
+    await ensureLoaded();
+    const collection = state.collections.find(c => c.id === id);
+    if (!collection || !name.trim()) return;
+    const updated = { ...collection, name: name.trim(), updatedAt: Date.now() };
+    await db.put(db.STORES.collections, updated);
+    state = { ...state, collections: state.collections.map(c => c.id === id ? updated : c) };
+    emit();
+}
+
+/** Deletes a collection together with everything saved in it. */
+export async function deleteCollection(id: string): Promise<void> {
+    await ensureLoaded();
+    const items = state.items.filter(item => item.collectionId === id);
+    await Promise.all(items.map(item => db.remove(db.STORES.savedItems, item.id)));
+    await db.remove(db.STORES.collections, id);
+    state = { collections: state.collections.filter(c => c.id !== id), items: state.items.filter(item => item.collectionId !== id) };
+    emit();
+}
+
+/** Saves into `collectionId`, or into the first collection (created if needed) when omitted. */
+export async function saveItem(data: SavedItemData, collectionId?: string): Promise<SavedItem> {
+    await ensureLoaded();
+    const targetId = collectionId ?? state.collections[0]?.id ?? (await createCollection(DEFAULT_COLLECTION_NAME)).id;
+    const key = savedItemKey(data);
+    const existing = state.items.find(item => item.collectionId === targetId && item.key === key);
+    if (existing) return existing;
+    const item: SavedItem = { id: crypto.randomUUID(), collectionId: targetId, key, data, note: '', savedAt: Date.now() };
+    await db.put(db.STORES.savedItems, item);
+    state = { ...state, items: [...state.items, item] };
+    emit();
+    return item;
+}
+
+export async function removeItem(id: string): Promise<void> {
+    await ensureLoaded();
+    await db.remove(db.STORES.savedItems, id);
+    state = { ...state, items: state.items.filter(item => item.id !== id) };
+    emit();
+}
+
+/** Removes the item from every collection it was saved to. */
+export async function unsaveEverywhere(data: SavedItemData): Promise<void> {
+    await ensureLoaded();
+    const key = savedItemKey(data);
+    await Promise.all(state.items.filter(item => item.key === key).map(item => removeItem(item.id)));
+}
+
+export async function setItemNote(id: string, note: string): Promise<void> {
+    await ensureLoaded();
+    const item = state.items.find(i => i.id === id);
+    if (!item || item.note === note) return;
+    const updated = { ...item, note };
+    await db.put(db.STORES.savedItems, updated);
+    state = { ...state, items: state.items.map(i => i.id === id ? updated : i) };
+    emit();
+}
+
+export function subscribeToSaved(listener: SavedListener): () => void {
+    listeners.add(listener);
+    listener(state);
+    ensureLoaded().catch(error => console.error("Failed to load saved items:", error));
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/** The message a "plan a day around these" chat opens with. */
+export function collectionPrompt(collection: Collection, items: SavedItem[]): string {
+    const lines = items.map(item => {
+        const location = savedItemLocation(item.data);
+        const details = [
+            savedItemSubtitle(item.data),
+            location && `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`,
+            item.note && `my note: ${item.note}`,
+        ].filter(Boolean);
+        return `- ${savedItemTitle(item.data)} (${savedItemKindLabel(item.data).toLowerCase()})${details.length ? `: ${details.join('; ')}` : ''}`;
+    });
+    return `Plan a day around these places from my "${collection.name}" collection:\n${lines.join('\n')}`;
+}
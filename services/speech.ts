@@ -0,0 +1,305 @@
+import { ChatMessage, Day, Itinerary } from '../types';
+import * as db from './db';
+import { describeAIError } from './aiErrors';
+import { decodeBase64, decodePcm, encodeWav, OUTPUT_SAMPLE_RATE } from './audio';
+import { downloadFile, slugify } from './export';
+import { generateSpeech } from './gemini';
+
+// Read-aloud for chat answers and itinerary days. Text is split into chunks the
+// TTS model handles comfortably, and each chunk is generated in order and added
+// to playback as it arrives, so a long itinerary starts playing after the first
+// one. Clips are cached in IndexedDB by a hash of their text, so replaying an
+// answer never calls the API again.
+//
+// Only one narration plays at a time; starting another replaces it.
+
+const MAX_CHUNK_CHARS = 900;
+const TICK_MS = 250;
+
+export type NarrationStatus = 'loading' | 'playing' | 'paused' | 'ended' | 'error';
+
+export interface Narration {
+    title: string;
+    text: string;
+    status: NarrationStatus;
+    /** Seconds into the audio. */
+    position: number;
+    /** Seconds of audio generated so far. */
+    duration: number;
+    chunksLoaded: number;
+    chunkCount: number;
+    error?: string;
+}
+
+interface SpeechClip {
+    id: string;
+    audio: string; // base64 24 kHz PCM
+    createdAt: number;
+}
+
+type NarrationListener = (narration: Narration | null) => void;
+
+let narration: Narration | null = null;
+let context: AudioContext | null = null;
+let pcmChunks: Uint8Array[] = [];
+let buffers: AudioBuffer[] = [];
+let sources: AudioBufferSourceNode[] = [];
+// Playback clock: track position `startOffset` was at context time `startedAt`.
+let startedAt = 0;
+let startOffset = 0;
+let scheduledUntil = 0;
+let ticker: ReturnType<typeof setInterval> | null = null;
+// Bumped whenever a narration is replaced, so chunks still being generated for it are dropped.
+let generation = 0;
+const listeners = new Set<NarrationListener>();
+
+/** Splits text at sentence boundaries into chunks of at most `maxChars`. */
+export function splitIntoChunks(text: string, maxChars = MAX_CHUNK_CHARS): string[] {
+    const sentences = text.replace(/\s+/g, ' ').trim().split(/(?<=[.!?:])\s+/).filter(Boolean);
+    const chunks: string[] = [];
+    let current = '';
+    const push = (piece: string) => {
+        if (current && current.length + piece.length + 1 > maxChars) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? `${current} ${piece}` : piece;
+    };
+    for (const sentence of sentences) {
+        if (sentence.length <= maxChars) {
+            push(sentence);
+            continue;
+        }
+        // A run-on sentence is split between words instead.
+        for (const word of sentence.split(' ')) push(word);
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+export function daySpeechText(day: Day): string {
+    const activities = day.activities.map(activity => {
+        const description = /[.!?]$/.test(activity.description.trim()) ? activity.description.trim() : `${activity.description.trim()}.`;
+        return activity.time ? `${activity.time}: ${description}` : description;
+    });
+    return [`Day ${day.day}: ${day.title}.`, day.summary, ...activities].filter(Boolean).join(' ');
+}
+
+function itinerarySpeechText(itinerary: Itinerary): string {
+    const intro = `Your ${itinerary.duration ? `${itinerary.duration} ` : ''}trip to ${itinerary.destination}.`;
+    return [intro, ...itinerary.itinerary.map(daySpeechText)].join(' ');
+}
+
+/** What the speaker button on a chat message reads out. */
+export function messageSpeechText(message: ChatMessage): string {
+    const { content, contentType } = message;
+    if (contentType === 'itinerary' && typeof content === 'object' && 'destination' in content) return itinerarySpeechText(content);
+    if (Array.isArray(content)) return content.map(article => `${article.title}, from ${article.source}.`).join(' ');
+    return typeof content === 'string' ? content : '';
+}
+
+async function clipKey(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest).slice(0, 16), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function loadClip(text: string): Promise<string> {
+    const id = await clipKey(text);
+    const cached = await db.getOne<SpeechClip>(db.STORES.speech, id).catch(error => {
+        console.error("Failed to read cached speech:", error);
+        return undefined;
+    });
+    if (cached) return cached.audio;
+    const audio = await generateSpeech(text);
+    db.put<SpeechClip>(db.STORES.speech, { id, audio, createdAt: Date.now() })
+        .catch(error => console.error("Failed to cache speech:", error));
+    return audio;
+}
+
+function emit() {
+    const snapshot = narration && { ...narration };
+    listeners.forEach(listener => listener(snapshot));
+}
+
+function update(changes: Partial<Narration>) {
+    if (!narration) return;
+    narration = { ...narration, ...changes };
+    emit();
+}
+
+function loadedDuration(): number {
+    return buffers.reduce((sum, buffer) => sum + buffer.duration, 0);
+}
+
+function currentPosition(): number {
+    if (!context || !narration) return 0;
+    if (narration.status !== 'playing' && narration.status !== 'paused') return narration.position;
+    // The context clock stops while suspended, so this also holds still when paused.
+    return Math.min(startOffset + (context.currentTime - startedAt), scheduledUntil);
+}
+
+function stopSources() {
+    sources.forEach(source => source.stop());
+    sources = [];
+}
+
+function schedule(buffer: AudioBuffer, trackStart: number) {
+    if (!context) return;
+    const offset = Math.max(0, startOffset - trackStart);
+    if (offset >= buffer.duration) return;
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.start(startedAt + trackStart + offset - startOffset, offset);
+    sources.push(source);
+    scheduledUntil = trackStart + buffer.duration;
+}
+
+/** (Re)schedules every loaded chunk from `position` onwards. */
+function playFrom(position: number) {
+    if (!context) return;
+    stopSources();
+    startedAt = context.currentTime;
+    startOffset = position;
+    scheduledUntil = position;
+    let trackStart = 0;
+    for (const buffer of buffers) {
+        schedule(buffer, trackStart);
+        trackStart += buffer.duration;
+    }
+}
+
+function tick() {
+    if (!narration || narration.status !== 'playing') return;
+    const position = currentPosition();
+    const allLoaded = narration.chunksLoaded === narration.chunkCount;
+    if (allLoaded && position >= narration.duration - 0.05) {
+        stopSources();
+        stopTicker();
+        update({ status: 'ended', position: narration.duration });
+        return;
+    }
+    update({ position });
+}
+
+function startTicker() {
+    if (!ticker) ticker = setInterval(tick, TICK_MS);
+}
+
+function stopTicker() {
+    if (ticker) clearInterval(ticker);
+    ticker = null;
+}
+
+function appendChunk(base64: string) {
+    if (!context || !narration) return;
+    const bytes = decodeBase64(base64);
+    const buffer = decodePcm(bytes, context, OUTPUT_SAMPLE_RATE);
+    const trackStart = loadedDuration();
+    const isStarted = narration.status === 'playing' || narration.status === 'paused';
+    const ranDry = isStarted && currentPosition() >= scheduledUntil - 0.01;
+    pcmChunks.push(bytes);
+    buffers.push(buffer);
+    const isFirst = narration.status === 'loading';
+    if (isFirst) {
+        playFrom(0);
+        startTicker();
+    } else if (ranDry) {
+        // Playback ran ahead of generation; carry on from where it stopped.
+        playFrom(trackStart);
+    } else if (isStarted) {
+        schedule(buffer, trackStart);
+    }
+    update({
+        status: isFirst ? 'playing' : narration.status,
+        duration: trackStart + buffer.duration,
+        chunksLoaded: buffers.length,
+    });
+}
+
+async function generateChunks(token: number, chunks: string[]) {
+    try {
+        for (const chunk of chunks) {
+            const audio = await loadClip(chunk);
+            if (token !== generation) return;
+            appendChunk(audio);
+        }
+    } catch (error) {
+        if (token !== generation) return;
+        console.error("Failed to generate speech:", error);
+        // Whatever was generated keeps playing; only the rest is lost.
+        const message = "Couldn't read the rest of this aloud.";
+        if (buffers.length === 0) update({ status: 'error', error: describeAIError(error, 'read this aloud') });
+        else update({ chunkCount: buffers.length, error: message });
+    }
+}
+
+/** Starts reading `text` aloud, replacing whatever was playing. */
+export function narrate(title: string, text: string): void {
+    stopNarration();
+    const chunks = splitIntoChunks(text);
+    if (chunks.length === 0) return;
+    const token = ++generation;
+    context = new AudioContext({ sampleRate: OUTPUT_SAMPLE_RATE });
+    narration = { title, text, status: 'loading', position: 0, duration: 0, chunksLoaded: 0, chunkCount: chunks.length };
+    emit();
+    generateChunks(token, chunks);
+}
+
+export function togglePause(): void {
+    if (!narration || !context) return;
+    if (narration.status === 'playing') {
+        context.suspend();
+        update({ status: 'paused', position: currentPosition() });
+    } else if (narration.status === 'paused') {
+        context.resume();
+        update({ status: 'playing' });
+    } else if (narration.status === 'ended') {
+        playFrom(0);
+        startTicker();
+        update({ status: 'playing', position: 0 });
+    }
+}
+
+export function seek(position: number): void {
+    if (!narration || !context || buffers.length === 0) return;
+    const target = Math.max(0, Math.min(position, loadedDuration()));
+    if (narration.status === 'ended') {
+        startTicker();
+        narration = { ...narration, status: 'playing' };
+    }
+    playFrom(target);
+    update({ position: target });
+}
+
+export function stopNarration(): void {
+    generation++;
+    stopTicker();
+    stopSources();
+    context?.close();
+    context = null;
+    pcmChunks = [];
+    buffers = [];
+    scheduledUntil = 0;
+    if (narration) {
+        narration = null;
+        emit();
+    }
+}
+
+export function canDownloadNarration(current: Narration | null): boolean {
+    return !!current && current.chunksLoaded > 0 && current.chunksLoaded === current.chunkCount;
+}
+
+export function downloadNarration(): void {
+    if (!narration || !canDownloadNarration(narration)) return;
+    downloadFile(`${slugify(narration.title)}.wav`, encodeWav(pcmChunks), 'audio/wav');
+}
+
+export function subscribeToNarration(listener: NarrationListener): () => void {
+    listeners.add(listener);
+    listener(narration && { ...narration });
+    return () => {
+        listeners.delete(listener);
+    };
+}
@@ -0,0 +1,51 @@
+import { Activity, Itinerary, Trip } from '../types';
+import * as db from './db';
+
+export async function listTrips(): Promise<Trip[]> {
+    const trips = await db.getAll<Trip>(db.STORES.trips);
+    return trips.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function getTrip(id: string): Promise<Trip | undefined> {
+    return db.getOne<Trip>(db.STORES.trips, id);
+}
+
+export async function createTrip(itinerary: Itinerary, conversationId?: string): Promise<Trip> {
+    const now = Date.now();
+    const trip: Trip = {
+        id: crypto.randomUUID(),
+        // Copied so later edits to the trip never touch the chat message it came from.
+        itinerary: structuredClone(itinerary),
+        conversationId,
+        createdAt: now,
+        updatedAt: now,
+    };
+    await db.put(db.STORES.trips, trip);
+    return trip;
+}
+
+export async function saveTrip(trip: Trip): Promise<Trip> {
+    const updated = { ...trip, updatedAt: Date.now() };
+    await db.put(db.STORES.trips, updated);
+    return updated;
+}
+
+/** Sets or, with undefined, removes a trip's cover image. */
+export async function setTripCover(id: string, coverImage: string | undefined): Promise<Trip | undefined> {
+    const trip = await getTrip(id);
+    if (!trip) return undefined;
+    return saveTrip({ ...trip, coverImage });
+}
+
+/** Appends an activity to the end of one day of a stored trip. */
+export async function addActivityToDay(id: string, dayIndex: number, activity: Activity): Promise<Trip | undefined> {
+    const trip = await getTrip(id);
+    const day = trip?.itinerary.itinerary[dayIndex];
+    if (!day) return undefined;
+    const days = trip.itinerary.itinerary.map((d, i) => i === dayIndex ? { ...d, activities: [...d.activities, activity] } : d);
+    return saveTrip({ ...trip, itinerary: { ...trip.itinerary, itinerary: days } });
+}
+
+export function deleteTrip(id: string): Promise<void> {
+    return db.remove(db.STORES.trips, id);
+}
@@ -0,0 +1,114 @@
+import { FeedArticle, FollowedDestination, NewsArticle } from '../types';
+import * as db from './db';
+import { groundWithSearch } from './gemini';
+
+/**
+ * Reduces an article URL to what identifies the page, so the same story seen
+ * with different tracking parameters or a trailing slash is only listed once.
+ */
+export function normalizeArticleUrl(url: string): string {
+    try {
+        const parsed = new URL(url.trim());
+        parsed.hash = '';
+        for (const key of [...parsed.searchParams.keys()]) {
+            if (/^(utm_|fbclid$|gclid$)/i.test(key)) parsed.searchParams.delete(key);
+        }
+        const path = parsed.pathname.replace(/\/+$/, '');
+        return `${parsed.hostname.replace(/^www\./, '').toLowerCase()}${path}${parsed.search}`;
+    } catch {
+        return url.trim().toLowerCase();
+    }
+}
+
+/**
+ * Adds articles not seen before to the front of the feed. Known articles keep
+ * their read and dismissed state.
+ */
+export function mergeArticles(existing: FeedArticle[], incoming: NewsArticle[], now: number): FeedArticle[] {
+    const seen = new Set(existing.map(article => normalizeArticleUrl(article.url)));
+    const added: FeedArticle[] = [];
+    for (const article of incoming) {
+        const key = normalizeArticleUrl(article.url);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        added.push({ ...article, firstSeenAt: now, read: false, dismissed: false });
+    }
+    return [...added, ...existing];
+}
+
+/** Articles that arrived with the most recent refresh and have not been opened. */
+export function isNewArticle(destination: FollowedDestination, article: FeedArticle): boolean {
+    return !article.read && article.firstSeenAt === destination.refreshedAt;
+}
+
+export function unreadCount(destination: FollowedDestination): number {
+    return destination.articles.filter(article => !article.read && !article.dismissed).length;
+}
+
+export async function listFollowedDestinations(): Promise<FollowedDestination[]> {
+    const destinations = await db.getAll<FollowedDestination>(db.STORES.destinations);
+    return destinations.sort((a, b) => a.followedAt - b.followedAt);
+}
+
+/** Follows a destination by name. Following one that is already followed returns it unchanged. */
+export async function followDestination(name: string): Promise<FollowedDestination> {
+    const trimmed = name.trim();
+    const existing = (await listFollowedDestinations()).find(d => d.name.toLowerCase() === trimmed.toLowerCase());
+    if (existing) return existing;
+    const destination: FollowedDestination = {
+        id: crypto.randomUUID(),
+        name: trimmed,
+        summary: '',
+        articles: [],
+        followedAt: Date.now(),
+    };
+    await db.put(db.STORES.destinations, destination);
+    return destination;
+}
+
+export function unfollowDestination(id: string): Promise<void> {
+    return db.remove(db.STORES.destinations, id);
+}
+
+async function saveDestination(destination: FollowedDestination): Promise<void> {
+    await db.put(db.STORES.destinations, destination);
+}
+
+// Changes are applied to the stored record rather than the caller's copy, so a
+// refresh finishing in the background does not undo a dismiss made meanwhile.
+async function updateDestination(id: string, update: (destination: FollowedDestination) => FollowedDestination): Promise<FollowedDestination | undefined> {
+    const stored = await db.getOne<FollowedDestination>(db.STORES.destinations, id);
+    if (!stored) return undefined;
+    const updated = update(stored);
+    await saveDestination(updated);
+    return updated;
+}
+
+/**
+ * Fetches the latest grounded news for a destination and merges it into its
+ * feed. Resolves to undefined if the destination was unfollowed meanwhile.
+ */
+export async function refreshDestination(destination: FollowedDestination): Promise<FollowedDestination | undefined> {
+    const result = await groundWithSearch(`the latest travel news and official travel advisories for ${destination.name}, from the past few weeks`);
+    const now = Date.now();
+    return updateDestination(destination.id, stored => ({
+        ...stored,
+        summary: result.summary || stored.summary,
+        articles: mergeArticles(stored.articles, result.articles, now),
+        refreshedAt: now,
+    }));
+}
+
+export function updateArticle(id: string, url: string, changes: Partial<Pick<FeedArticle, 'read' | 'dismissed'>>): Promise<FollowedDestination | undefined> {
+    return updateDestination(id, stored => ({
+        ...stored,
+        articles: stored.articles.map(article => article.url === url ? { ...article, ...changes } : article),
+    }));
+}
+
+export function markAllRead(id: string): Promise<FollowedDestination | undefined> {
+    return updateDestination(id, stored => ({
+        ...stored,
+        articles: stored.articles.map(article => ({ ...article, read: true })),
+    }));
+}
@@ -0,0 +1,132 @@
+// Small runtime validators for data coming back from the model. Each validator
+// coerces what it reasonably can (numeric strings, enum casing, missing fields
+// with defaults) and reports the rest as issues with a path, which are fed back
+// to the model when asking it to repair its answer.
+
+export type ValidationResult<T> =
+    | { ok: true; value: T; warnings: string[] }
+    | { ok: false; issues: string[] };
+
+export type Validator<T> = (input: unknown, path: string) => ValidationResult<T>;
+
+const ok = <T>(value: T, warnings: string[] = []): ValidationResult<T> => ({ ok: true, value, warnings });
+const fail = <T>(path: string, message: string): ValidationResult<T> => ({ ok: false, issues: [`${path || 'value'}: ${message}`] });
+
+const isMissing = (input: unknown) => input === undefined || input === null || input === '';
+
+const describe = (input: unknown) => Array.isArray(input) ? 'an array' : input === null ? 'null' : typeof input;
+
+export function string(): Validator<string> {
+    return (input, path) => {
+        if (typeof input === 'string') return ok(input.trim());
+        if (typeof input === 'number' || typeof input === 'boolean') return ok(String(input));
+        return fail(path, `expected a string, got ${describe(input)}`);
+    };
+}
+
+export function number(): Validator<number> {
+    return (input, path) => {
+        if (typeof input === 'number' && Number.isFinite(input)) return ok(input);
+        if (typeof input === 'string') {
+            const parsed = parseFloat(input.replace(/[,\s]/g, ''));
+            if (Number.isFinite(parsed)) return ok(parsed);
+        }
+        return fail(path, `expected a number, got ${describe(input)}`);
+    };
+}
+
+export function integer(): Validator<number> {
+    const base = number();
+    return (input, path) => {
+        const result = base(input, path);
+        return result.ok === false ? result : ok(Math.round(result.value));
+    };
+}
+
+export function url(): Validator<string> {
+    return (input, path) => {
+        if (typeof input === 'string' && /^https?:\/\/\S+$/i.test(input.trim())) return ok(input.trim());
+        return fail(path, `expected an http(s) URL, got ${JSON.stringify(input)}`);
+    };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Validator<T> {
+    return (input, path) => {
+        if (typeof input === 'string') {
+            const match = values.find(v => v.toLowerCase() === input.trim().toLowerCase());
+            if (match) return ok(match);
+        }
+        return fail(path, `expected one of ${values.join(', ')}, got ${JSON.stringify(input)}`);
+    };
+}
+
+/** Uses `fallback` when the field is missing or cannot be coerced. */
+export function withDefault<T>(validator: Validator<T>, fallback: T | (() => T)): Validator<T> {
+    const resolve = () => typeof fallback === 'function' ? (fallback as () => T)() : fallback;
+    return (input, path) => {
+        if (isMissing(input)) return ok(resolve());
+        const result = validator(input, path);
+        return result.ok === false ? ok(resolve(), result.issues) : result;
+    };
+}
+
+/** Missing or malformed optional fields are dropped instead of failing the record. */
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+    return (input, path) => {
+        if (isMissing(input)) return ok(undefined);
+        const result = validator(input, path);
+        return result.ok === false ? ok(undefined, result.issues) : result;
+    };
+}
+
+export function object<T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+    return (input, path) => {
+        if (!input || typeof input !== 'object' || Array.isArray(input)) {
+            return fail(path, `expected an object, got ${describe(input)}`);
+        }
+        const record = input as Record<string, unknown>;
+        const value: Partial<T> = {};
+        const issues: string[] = [];
+        const warnings: string[] = [];
+        for (const key of Object.keys(shape) as (keyof T & string)[]) {
+            const result = shape[key](record[key], path ? `${path}.${key}` : key);
+            if (result.ok === false) {
+                issues.push(...result.issues);
+            } else {
+                if (result.value !== undefined) value[key] = result.value;
+                warnings.push(...result.warnings);
+            }
+        }
+        return issues.length ? { ok: false, issues } : ok(value as T, warnings);
+    };
+}
+
+/**
+ * Invalid items are dropped and reported as warnings, so one bad entry does
+ * not throw away a whole list. The array only fails when every item is bad.
+ */
+export function array<T>(item: Validator<T>): Validator<T[]> {
+    return (input, path) => {
+        if (!Array.isArray(input)) return fail(path, `expected an array, got ${describe(input)}`);
+        const values: T[] = [];
+        const dropped: string[] = [];
+        input.forEach((entry, index) => {
+            const result = item(entry, `${path}[${index}]`);
+            if (result.ok === false) {
+                dropped.push(...result.issues);
+            } else {
+                values.push(result.value);
+                dropped.push(...result.warnings);
+            }
+        });
+        if (input.length > 0 && values.length === 0) return { ok: false, issues: dropped };
+        return ok(values, dropped);
+    };
+}
+
+export function map<T, U>(validator: Validator<T>, transform: (value: T) => U): Validator<U> {
+    return (input, path) => {
+        const result = validator(input, path);
+        return result.ok === false ? result : ok(transform(result.value), result.warnings);
+    };
+}
@@ -0,0 +1,140 @@
+import { Activity, Day, Destination, Itinerary, LandmarkIdentification, MenuDish, MenuTranslation, Money, NewsArticle, NewsSearchResult, ResolvedLocation, Restaurant, SignReading, SourceVideo, TimetableRow, YouTubeVideo } from '../types';
+import { renumberDays } from './itinerary';
+import { array, integer, map, number, object, oneOf, optional, string, url, Validator, withDefault } from './validation';
+
+// Validators for each shape the model is asked to return. `object<T>` requires
+// a validator for every field of T, so these stay in step with types.ts.
+
+const latLng = object<{ lat: number, lng: number }>({
+    lat: number(),
+    lng: number(),
+});
+
+const money = object<Money>({
+    amount: number(),
+    currency: map(string(), currency => currency.toUpperCase()),
+});
+
+export const restaurantValidator: Validator<Restaurant> = map(object<Restaurant>({
+    placeId: withDefault(string(), ''),
+    name: string(),
+    rating: withDefault(number(), 0),
+    reviewCount: withDefault(integer(), 0),
+    vicinity: withDefault(string(), ''),
+    location: latLng,
+    imageUrl: optional(url()),
+    types: withDefault(array(string()), []),
+    distance: optional(number()),
+}), place => ({ ...place, placeId: place.placeId || `generated-${place.name}-${Math.random()}` }));
+
+export const restaurantListValidator = array(restaurantValidator);
+
+export const youTubeVideoValidator: Validator<YouTubeVideo> = map(object<YouTubeVideo>({
+    videoId: string(),
+    title: string(),
+    description: withDefault(string(), ''),
+    channelTitle: withDefault(string(), ''),
+    thumbnailUrl: withDefault(url(), ''),
+}), video => ({ ...video, thumbnailUrl: video.thumbnailUrl || `https://i.ytimg.com/vi/${video.videoId}/hqdefault.jpg` }));
+
+export const youTubeVideoListValidator = array(youTubeVideoValidator);
+
+export const destinationValidator = object<Destination>({
+    name: string(),
+    lat: number(),
+    lng: number(),
+    city: optional(string()),
+    region: optional(string()),
+    country: optional(string()),
+});
+
+export const destinationListValidator = array(destinationValidator);
+
+// Reverse geocoding; the coordinates are the ones asked about, not the model's.
+export const locationPartsValidator = object<Pick<ResolvedLocation, 'city' | 'region' | 'country'>>({
+    city: string(),
+    region: withDefault(string(), ''),
+    country: string(),
+});
+
+export const newsArticleValidator = object<NewsArticle>({
+    title: string(),
+    source: withDefault(string(), ''),
+    url: url(),
+    snippet: withDefault(string(), ''),
+});
+
+export const newsSearchResultValidator = object<Omit<NewsSearchResult, 'groundingChunks'>>({
+    summary: withDefault(string(), ''),
+    articles: withDefault(array(newsArticleValidator), []),
+});
+
+export const activityValidator = object<Activity>({
+    time: withDefault(string(), ''),
+    description: string(),
+    type: withDefault(oneOf(['flight', 'hotel', 'dining', 'activity', 'travel'] as const), 'activity'),
+    placeName: optional(string()),
+    location: optional(latLng),
+    durationMinutes: optional(integer()),
+    estimatedCost: optional(money),
+    url: optional(url()),
+    videoTimestamp: optional(integer()),
+});
+
+export const dayValidator = object<Day>({
+    day: withDefault(integer(), 0),
+    title: withDefault(string(), ''),
+    summary: withDefault(string(), ''),
+    activities: withDefault(array(activityValidator), []),
+});
+
+export const itineraryValidator: Validator<Itinerary> = map(object<Itinerary>({
+    destination: string(),
+    duration: withDefault(string(), ''),
+    budget: withDefault(string(), ''),
+    itinerary: array(dayValidator),
+    sourceVideo: optional(object<SourceVideo>({
+        title: withDefault(string(), ''),
+        url: optional(url()),
+    })),
+}), itinerary => ({ ...itinerary, itinerary: renumberDays(itinerary.itinerary) }));
+
+export const menuDishValidator = object<MenuDish>({
+    name: string(),
+    originalName: withDefault(string(), ''),
+    description: withDefault(string(), ''),
+    allergens: withDefault(array(string()), []),
+    price: optional(string()),
+});
+
+export const menuTranslationValidator = object<MenuTranslation>({
+    restaurantName: optional(string()),
+    language: withDefault(string(), ''),
+    dishes: array(menuDishValidator),
+});
+
+export const landmarkValidator = object<LandmarkIdentification>({
+    name: string(),
+    city: withDefault(string(), ''),
+    country: withDefault(string(), ''),
+    summary: withDefault(string(), ''),
+    history: withDefault(string(), ''),
+    nearbyTips: withDefault(array(string()), []),
+    location: optional(latLng),
+    visitDurationMinutes: optional(integer()),
+    confidence: withDefault(oneOf(['high', 'medium', 'low'] as const), 'medium'),
+});
+
+const timetableRowValidator = object<TimetableRow>({
+    time: string(),
+    destination: withDefault(string(), ''),
+    details: withDefault(string(), ''),
+});
+
+export const signReadingValidator = object<SignReading>({
+    kind: withDefault(oneOf(['sign', 'timetable', 'notice'] as const), 'sign'),
+    language: withDefault(string(), ''),
+    translation: string(),
+    keyPoints: withDefault(array(string()), []),
+    timetable: withDefault(array(timetableRowValidator), []),
+});
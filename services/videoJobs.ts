@@ -0,0 +1,240 @@
+import { VideoAspectRatio, VideoJob } from '../types';
+import * as db from './db';
+import { describeAIError } from './aiErrors';
+import { checkVideoStatus, fetchGeneratedVideo, generateVideo } from './gemini';
+import { downloadFile, slugify } from './export';
+import { parseDataUrl } from './images';
+
+// Drives Veo generations from request to finished file. Jobs live in memory for
+// the views and are written through to IndexedDB on every change, so a reload
+// picks up queued work and keeps polling operations that were already started.
+//
+// Veo offers no way to stop an operation through the Gemini API. Cancelling a
+// running job stops tracking it; the server may still finish the video.
+
+const MAX_RUNNING_JOBS = 2;
+const FIRST_POLL_DELAY_MS = 10_000;
+const MAX_POLL_DELAY_MS = 60_000;
+const POLL_BACKOFF = 1.5;
+const MAX_POLL_FAILURES = 5;
+
+export interface VideoJobRequest {
+    prompt: string;
+    aspectRatio: VideoAspectRatio;
+    sourceImage?: string;
+}
+
+type JobsListener = (jobs: VideoJob[]) => void;
+type FinishedListener = (job: VideoJob) => void;
+
+let jobs: VideoJob[] = [];
+let loaded: Promise<void> | null = null;
+const listeners = new Set<JobsListener>();
+const finishedListeners = new Set<FinishedListener>();
+const pollTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const pollFailures = new Map<string, number>();
+
+export function pollDelay(pollCount: number): number {
+    return Math.min(MAX_POLL_DELAY_MS, FIRST_POLL_DELAY_MS * POLL_BACKOFF ** pollCount);
+}
+
+export function isActive(job: VideoJob): boolean {
+    return job.status === 'queued' || job.status === 'running';
+}
+
+/** Milliseconds from the request until it finished, or until now while it is still going. */
+export function elapsedMs(job: VideoJob, now = Date.now()): number {
+    return (job.finishedAt ?? now) - job.createdAt;
+}
+
+function emit() {
+    const snapshot = [...jobs];
+    listeners.forEach(listener => listener(snapshot));
+}
+
+function findJob(id: string): VideoJob | undefined {
+    return jobs.find(job => job.id === id);
+}
+
+async function updateJob(id: string, changes: Partial<VideoJob>): Promise<VideoJob | undefined> {
+    const current = findJob(id);
+    if (!current) return undefined;
+    const updated = { ...current, ...changes };
+    jobs = jobs.map(job => job.id === id ? updated : job);
+    emit();
+    await db.put(db.STORES.videoJobs, updated);
+    return updated;
+}
+
+function ensureLoaded(): Promise<void> {
+    if (!loaded) {
+        loaded = db.getAll<VideoJob>(db.STORES.videoJobs).then(stored => {
+            jobs = stored.sort((a, b) => b.createdAt - a.createdAt);
+            emit();
+            for (const job of jobs) {
+                if (job.status !== 'running') continue;
+                // Closed between the request and its response: nothing to poll,
+                // so send it again.
+                if (!job.operationName) updateJob(job.id, { status: 'queued', startedAt: undefined });
+                else schedulePoll(job);
+            }
+            pump();
+        }).catch(error => {
+            loaded = null;
+            throw error;
+        });
+    }
+    return loaded;
+}
+
+/** Loads stored jobs and resumes any that were still in progress. Safe to call more than once. */
+export function resumeVideoJobs(): Promise<void> {
+    return ensureLoaded();
+}
+
+/** Calls `listener` with the current jobs now and after every change. */
+export function subscribeToVideoJobs(listener: JobsListener): () => void {
+    listeners.add(listener);
+    listener([...jobs]);
+    ensureLoaded().catch(error => console.error("Failed to load video jobs:", error));
+    return () => { listeners.delete(listener); };
+}
+
+/** Called once for every job that finishes with a video. */
+export function onVideoJobFinished(listener: FinishedListener): () => void {
+    finishedListeners.add(listener);
+    return () => { finishedListeners.delete(listener); };
+}
+
+export async function enqueueVideoJob(request: VideoJobRequest): Promise<VideoJob> {
+    await ensureLoaded();
+    if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+        Notification.requestPermission().catch(() => undefined);
+    }
+    const job: VideoJob = {
+        id: crypto.randomUUID(),
+        prompt: request.prompt,
+        aspectRatio: request.aspectRatio,
+        sourceImage: request.sourceImage,
+        status: 'queued',
+        pollCount: 0,
+        createdAt: Date.now(),
+    };
+    jobs = [job, ...jobs];
+    emit();
+    await db.put(db.STORES.videoJobs, job);
+    pump();
+    return job;
+}
+
+export async function retryVideoJob(job: VideoJob): Promise<VideoJob> {
+    return enqueueVideoJob({ prompt: job.prompt, aspectRatio: job.aspectRatio, sourceImage: job.sourceImage });
+}
+
+export async function cancelVideoJob(id: string): Promise<void> {
+    const job = findJob(id);
+    if (!job || !isActive(job)) return;
+    stopPolling(id);
+    await updateJob(id, { status: 'cancelled', finishedAt: Date.now() });
+    pump();
+}
+
+export async function removeVideoJob(id: string): Promise<void> {
+    stopPolling(id);
+    jobs = jobs.filter(job => job.id !== id);
+    emit();
+    await db.remove(db.STORES.videoJobs, id);
+    pump();
+}
+
+export function downloadVideo(job: VideoJob): void {
+    if (!job.video) return;
+    downloadFile(`${slugify(job.prompt).slice(0, 60)}.mp4`, job.video, job.video.type || 'video/mp4');
+}
+
+// Starts queued jobs, oldest first, while there is room.
+function pump() {
+    const running = jobs.filter(job => job.status === 'running').length;
+    const queued = jobs.filter(job => job.status === 'queued').reverse();
+    for (const job of queued.slice(0, Math.max(0, MAX_RUNNING_JOBS - running))) {
+        submit(job);
+    }
+}
+
+async function submit(job: VideoJob) {
+    try {
+        await updateJob(job.id, { status: 'running', startedAt: Date.now() });
+        const image = job.sourceImage ? parseDataUrl(job.sourceImage) : null;
+        const operation = await generateVideo(job.prompt, image?.base64 ?? null, image?.mimeType ?? null, job.aspectRatio);
+        if (findJob(job.id)?.status !== 'running') return;
+        const started = await updateJob(job.id, { operationName: operation.name });
+        if (started) schedulePoll(started);
+    } catch (error) {
+        console.error("Failed to start video generation:", error);
+        await fail(job.id, describeAIError(error, 'start this video'));
+    }
+}
+
+function schedulePoll(job: VideoJob) {
+    stopPolling(job.id);
+    pollTimers.set(job.id, setTimeout(() => poll(job.id), pollDelay(job.pollCount)));
+}
+
+function stopPolling(id: string) {
+    clearTimeout(pollTimers.get(id));
+    pollTimers.delete(id);
+    pollFailures.delete(id);
+}
+
+async function poll(id: string) {
+    pollTimers.delete(id);
+    const job = findJob(id);
+    if (!job || job.status !== 'running' || !job.operationName) return;
+    try {
+        const operation = await checkVideoStatus({ name: job.operationName, done: false });
+        pollFailures.delete(id);
+        if (findJob(id)?.status !== 'running') return;
+        if (!operation.done) {
+            const updated = await updateJob(id, { pollCount: job.pollCount + 1 });
+            if (updated) schedulePoll(updated);
+            return;
+        }
+        if (operation.error || !operation.videoUri) {
+            await fail(id, operation.error ?? 'The video finished without a file.');
+            return;
+        }
+        const video = await fetchGeneratedVideo(operation.videoUri);
+        if (findJob(id)?.status !== 'running') return;
+        const finished = await updateJob(id, { status: 'succeeded', video, finishedAt: Date.now() });
+        if (finished) announce(finished);
+        pump();
+    } catch (error) {
+        // Network blips are common over a multi-minute wait, so only give up
+        // after several polls in a row have failed.
+        const failures = (pollFailures.get(id) ?? 0) + 1;
+        console.warn(`Video status check failed (${failures}/${MAX_POLL_FAILURES}):`, error);
+        if (failures >= MAX_POLL_FAILURES) {
+            await fail(id, "Lost track of this video. Please try again.");
+            return;
+        }
+        pollFailures.set(id, failures);
+        const current = findJob(id);
+        if (current?.status === 'running') {
+            pollTimers.set(id, setTimeout(() => poll(id), pollDelay(current.pollCount + failures)));
+        }
+    }
+}
+
+async function fail(id: string, error: string) {
+    stopPolling(id);
+    if (findJob(id)?.status !== 'running') return;
+    await updateJob(id, { status: 'failed', error, finishedAt: Date.now() });
+    pump();
+}
+
+function announce(job: VideoJob) {
+    finishedListeners.forEach(listener => listener(job));
+    if (typeof Notification !== 'undefined' && Notification.permission === 'granted' && document.hidden) {
+        new Notification('Your video is ready', { body: job.prompt });
+    }
+}
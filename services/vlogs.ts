@@ -0,0 +1,45 @@
+import { ChatMessage, Conversation, Itinerary, SourceVideo } from '../types';
+import { createConversation, saveConversation } from './conversations';
+
+// Uploaded videos are sent inline with the request, which the API caps at 20 MB.
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+export function formatTimestamp(seconds: number): string {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+    return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/** Link that starts the source video at `seconds`, or undefined for uploaded files. */
+export function timestampUrl(video: SourceVideo | undefined, seconds: number): string | undefined {
+    if (!video?.url) return undefined;
+    try {
+        const url = new URL(video.url);
+        url.searchParams.set('t', `${Math.floor(seconds)}s`);
+        return url.toString();
+    } catch {
+        return undefined;
+    }
+}
+
+export function isYouTubeUrl(text: string): boolean {
+    try {
+        const { hostname } = new URL(text.trim());
+        return /(^|\.)youtube\.com$/.test(hostname) || hostname === 'youtu.be';
+    } catch {
+        return false;
+    }
+}
+
+/** Starts a conversation holding the extracted itinerary, ready to refine or save. */
+export async function startChatFromItinerary(itinerary: Itinerary): Promise<Conversation> {
+    const video = itinerary.sourceVideo;
+    const messages: ChatMessage[] = [
+        { role: 'user', contentType: 'text', content: `Turn this video into an itinerary: ${video?.title ?? 'my travel video'}${video?.url && video.url !== video.title ? ` (${video.url})` : ''}` },
+        { role: 'model', contentType: 'itinerary', content: itinerary },
+    ];
+    const conversation = createConversation(messages);
+    await saveConversation(conversation);
+    return conversation;
+}
@@ -1,40 +1,153 @@
 import { YouTubeVideo } from '../types';
+import { findYouTubeVideosByTopic } from './gemini';
+import { isUsingFixtures } from './providers';
 
-const YOUTUBE_API_BASE_URL = 'https://www.googleapis.com/youtube/v3';
+// Video discovery for Explore. Searches go to the YouTube Data API; when that
+// is unavailable (no key, quota used up, API not enabled) Gemini suggests
+// videos instead. Either way every ID is checked before it is shown, since the
+// model's suggestions often point at videos that do not exist; only recorded
+// fixture suggestions are taken as they are.
+//
+// YOUTUBE_API_BASE_URL lets a local stub server stand in for the API.
 
-export async function searchYouTubeVideos(query: string): Promise<YouTubeVideo[]> {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-        console.error("YouTube API key is not configured.");
-        return [];
+const YOUTUBE_API_BASE_URL = process.env.YOUTUBE_API_BASE_URL || 'https://www.googleapis.com/youtube/v3';
+const PAGE_SIZE = 12;
+const VIDEO_ID = /^[\w-]{11}$/;
+
+export class YouTubeApiError extends Error {
+    constructor(message: string, public readonly status?: number) {
+        super(message);
+        this.name = 'YouTubeApiError';
     }
+}
+
+export interface YouTubeSearchPage {
+    videos: YouTubeVideo[];
+    /** Token for the next page; absent on the last page and for Gemini suggestions. */
+    nextPageToken?: string;
+}
+
+// The parts of the Data API responses that are read here.
+interface ApiSnippet {
+    title: string;
+    description?: string;
+    channelTitle?: string;
+    thumbnails?: { default?: { url: string }, high?: { url: string } };
+}
+
+interface ApiListResponse<T> {
+    items?: T[];
+    nextPageToken?: string;
+}
 
-    const url = new URL(`${YOUTUBE_API_BASE_URL}/search`);
-    url.searchParams.append('part', 'snippet');
-    url.searchParams.append('q', query);
-    url.searchParams.append('type', 'video');
-    url.searchParams.append('maxResults', '10');
-    url.searchParams.append('key', apiKey);
+interface SearchItem {
+    id: { videoId: string };
+    snippet: ApiSnippet;
+}
+
+interface VideoItem {
+    id: string;
+    snippet: ApiSnippet;
+    status?: { embeddable?: boolean };
+}
+
+function apiKey(): string | undefined {
+    return process.env.YOUTUBE_API_KEY || process.env.API_KEY;
+}
+
+async function callApi<T>(endpoint: string, params: Record<string, string>): Promise<T> {
+    const key = apiKey();
+    if (!key) throw new YouTubeApiError("YouTube API key is not configured.");
+    const url = new URL(`${YOUTUBE_API_BASE_URL}/${endpoint}`);
+    Object.entries(params).forEach(([name, value]) => url.searchParams.append(name, value));
+    url.searchParams.append('key', key);
 
+    const response = await fetch(url.toString());
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new YouTubeApiError(errorData?.error?.message ?? `YouTube API request failed with status ${response.status}`, response.status);
+    }
+    return response.json();
+}
+
+function videoFromSnippet(videoId: string, snippet: ApiSnippet): YouTubeVideo {
+    return {
+        videoId,
+        title: snippet.title,
+        description: snippet.description ?? '',
+        channelTitle: snippet.channelTitle ?? '',
+        thumbnailUrl: snippet.thumbnails?.high?.url || snippet.thumbnails?.default?.url || `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+    };
+}
+
+/** One page of search results. Throws YouTubeApiError when the API cannot be used. */
+export async function searchYouTubeVideoPage(query: string, pageToken?: string): Promise<YouTubeSearchPage> {
+    const data = await callApi<ApiListResponse<SearchItem>>('search', {
+        part: 'snippet',
+        q: query,
+        type: 'video',
+        videoEmbeddable: 'true',
+        maxResults: String(PAGE_SIZE),
+        ...(pageToken ? { pageToken } : {}),
+    });
+    return {
+        videos: (data.items ?? []).map(item => videoFromSnippet(item.id.videoId, item.snippet)),
+        nextPageToken: data.nextPageToken || undefined,
+    };
+}
+
+/** Whether YouTube serves a real thumbnail for the ID; unknown IDs get a 120px placeholder. */
+function hasThumbnail(videoId: string): Promise<boolean> {
+    return new Promise(resolve => {
+        const image = new Image();
+        image.onload = () => resolve(image.naturalWidth > 120);
+        image.onerror = () => resolve(false);
+        image.src = `https://i.ytimg.com/vi/${videoId}/mqdefault.jpg`;
+    });
+}
+
+/**
+ * Drops videos that do not exist or cannot be embedded. Uses the API when it
+ * is available, which also replaces made-up titles and thumbnails with the
+ * real ones, and otherwise probes each video's thumbnail.
+ */
+export async function checkVideos(videos: YouTubeVideo[]): Promise<YouTubeVideo[]> {
+    const candidates = videos.filter((video, index) => VIDEO_ID.test(video.videoId) && videos.findIndex(v => v.videoId === video.videoId) === index);
+    if (candidates.length === 0) return [];
     try {
-        const response = await fetch(url.toString());
-        if (!response.ok) {
-            const errorData = await response.json();
-            console.error("YouTube API Error:", errorData.error.message);
-            throw new Error(`YouTube API request failed with status ${response.status}`);
-        }
-        const data = await response.json();
-        
-        return data.items.map((item: any): YouTubeVideo => ({
-            videoId: item.id.videoId,
-            title: item.snippet.title,
-            description: item.snippet.description,
-            channelTitle: item.snippet.channelTitle,
-            thumbnailUrl: item.snippet.thumbnails.high?.url || item.snippet.thumbnails.default?.url,
-        }));
+        const data = await callApi<ApiListResponse<VideoItem>>('videos', { part: 'snippet,status', id: candidates.map(video => video.videoId).join(',') });
+        const found = new Map((data.items ?? []).map(item => [item.id, item]));
+        return candidates.flatMap(video => {
+            const item = found.get(video.videoId);
+            return item && item.status?.embeddable !== false ? [videoFromSnippet(video.videoId, item.snippet)] : [];
+        });
+    } catch (error) {
+        if (apiKey()) console.warn("Couldn't check videos with the YouTube API, checking thumbnails instead:", error);
+        const exists = await Promise.all(candidates.map(video => hasThumbnail(video.videoId)));
+        return candidates
+            .filter((_, index) => exists[index])
+            .map(video => ({ ...video, thumbnailUrl: `https://i.ytimg.com/vi/${video.videoId}/hqdefault.jpg` }));
+    }
+}
 
+/** The first page of videos for a topic, from the API or, failing that, from Gemini. */
+export async function discoverVideos(topic: string): Promise<YouTubeSearchPage> {
+    try {
+        const page = await searchYouTubeVideoPage(topic);
+        if (page.videos.length > 0) return { ...page, videos: await checkVideos(page.videos) };
     } catch (error) {
-        console.error("Failed to fetch from YouTube API:", error);
-        return [];
+        console.warn("YouTube search unavailable, asking Gemini for videos instead:", error);
     }
+    const suggested = await findYouTubeVideosByTopic(topic);
+    // Fixture videos have made-up IDs and inline thumbnails and must work
+    // offline, so they are shown as recorded.
+    return { videos: isUsingFixtures() ? suggested : await checkVideos(suggested) };
+}
+
+export function watchUrl(videoId: string): string {
+    return `https://www.youtube.com/watch?v=${videoId}`;
+}
+
+export function embedUrl(videoId: string): string {
+    return `https://www.youtube-nocookie.com/embed/${videoId}?autoplay=1&rel=0`;
 }
@@ -1,6 +1,6 @@
 // FIX: Add import for React to use React.ReactNode type.
 import React from 'react';
-import { GroundingChunk } from "@google/genai";
+import { GroundingChunk, GroundingSupport, LiveServerMessage } from "@google/genai";
 
 export enum View {
   Chats = 'CHATS',
@@ -32,10 +32,12 @@ export interface Restaurant {
   distance?: number; // in km
 }
 
+export type PlaceCategory = 'food' | 'lodging' | 'attraction' | 'nightlife' | 'shopping';
+
 
 export interface LiveSessionCallbacks {
   onopen: () => void;
-  onmessage: (message: any) => void;
+  onmessage: (message: LiveServerMessage) => void;
   onerror: (e: ErrorEvent) => void;
   onclose: (e: CloseEvent) => void;
 }
@@ -47,10 +49,22 @@ export interface TranscriptionEntry {
 
 // --- NEW TYPES FOR STRUCTURED CONTENT ---
 
+export interface Money {
+    amount: number;
+    currency: string; // ISO 4217 code, e.g. 'USD'
+}
+
 export interface Activity {
     time: string;
     description: string;
     type: 'flight' | 'hotel' | 'dining' | 'activity' | 'travel';
+    // Optional so itineraries saved before these fields existed still load.
+    placeName?: string;
+    location?: { lat: number, lng: number };
+    durationMinutes?: number;
+    estimatedCost?: Money;
+    url?: string;
+    videoTimestamp?: number; // seconds into the itinerary's source video
 }
 
 export interface Day {
@@ -65,6 +79,22 @@ export interface Itinerary {
     duration: string;
     budget: string;
     itinerary: Day[];
+    // Set when the itinerary was extracted from a travel vlog.
+    sourceVideo?: SourceVideo;
+}
+
+export interface SourceVideo {
+    title: string;
+    url?: string; // absent for uploaded files, which are not kept
+}
+
+export interface Trip {
+    id: string;
+    itinerary: Itinerary;
+    conversationId?: string;
+    coverImage?: string; // data URL from the Create view
+    createdAt: number;
+    updatedAt: number;
 }
 
 export interface NewsArticle {
@@ -74,6 +104,28 @@ export interface NewsArticle {
     snippet: string;
 }
 
+export interface FeedArticle extends NewsArticle {
+    firstSeenAt: number;
+    read: boolean;
+    // Dismissed articles are kept so a refresh does not bring them back.
+    dismissed: boolean;
+}
+
+export interface FollowedDestination {
+    id: string;
+    name: string;
+    summary: string;
+    articles: FeedArticle[];
+    followedAt: number;
+    refreshedAt?: number;
+}
+
+export interface NewsSearchResult {
+    summary: string;
+    articles: NewsArticle[];
+    groundingChunks?: GroundingChunk[];
+}
+
 export type StructuredContent = Itinerary | NewsArticle[] | string;
 export type ContentType = 'itinerary' | 'news' | 'text';
 
@@ -82,6 +134,20 @@ export interface ChatMessage {
   content: StructuredContent;
   contentType: ContentType;
   groundingChunks?: GroundingChunk[];
+  // Ties spans of a grounded answer to entries in groundingChunks.
+  groundingSupports?: GroundingSupport[];
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+  // Whether factual questions may be answered from web search. On unless turned off.
+  groundingEnabled?: boolean;
+  // Summary of the Explore filters the chat was started with, given to the model on every turn.
+  tripContext?: string;
 }
 
 export interface YouTubeVideo {
@@ -92,6 +158,124 @@ export interface YouTubeVideo {
     thumbnailUrl: string;
 }
 
+// --- TYPES FOR CREATE VIEW ---
+export interface ImageEditStep {
+    prompt: string; // the generation or edit prompt; empty for an upload
+    imageUrl: string; // data URL
+    createdAt: number;
+}
+
+export interface StudioImage {
+    id: string;
+    title: string;
+    aspectRatio?: AspectRatio;
+    steps: ImageEditStep[]; // the original first, then one entry per edit
+    createdAt: number;
+    updatedAt: number;
+}
+
+// A Create view image shown in place of an Explore card's photo.
+export interface CardCover {
+    id: string; // see cardCoverKey in services/images.ts
+    imageUrl: string;
+}
+
+export type VideoAspectRatio = '16:9' | '9:16';
+
+export type VideoJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// A Veo generation tracked by services/videoJobs.ts. Stored so that jobs still
+// running when the page closes are picked up again on the next load.
+export interface VideoJob {
+    id: string;
+    prompt: string;
+    aspectRatio: VideoAspectRatio;
+    sourceImage?: string; // data URL for image-to-video
+    status: VideoJobStatus;
+    operationName?: string;
+    pollCount: number;
+    video?: Blob; // the finished file, kept so it plays without refetching
+    error?: string;
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+}
+
+// --- TYPES FOR SAVED VIEW ---
+// A card's display fields, without the icon element, which cannot be stored.
+export type SavedCard = Omit<ContentCardData, 'icon' | 'source'>;
+
+export type SavedItemData =
+    | { kind: 'place'; place: Restaurant }
+    | { kind: 'video'; video: YouTubeVideo }
+    | { kind: 'card'; card: SavedCard }
+    // A place named in a chat itinerary.
+    | { kind: 'activity'; activity: Activity; destination: string };
+
+export interface Collection {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface SavedItem {
+    id: string;
+    collectionId: string;
+    key: string; // identifies the same place or video across collections; see savedItemKey
+    data: SavedItemData;
+    note: string;
+    savedAt: number;
+}
+
+// --- TYPES FOR PHOTO ANALYZER ---
+export type PhotoAnalysisMode = 'menu' | 'landmark' | 'sign';
+
+export interface MenuDish {
+    name: string; // translated
+    originalName: string; // as printed on the menu
+    description: string;
+    allergens: string[];
+    price?: string; // as printed, e.g. '¥1,200'
+}
+
+export interface MenuTranslation {
+    restaurantName?: string;
+    language: string; // the menu's language
+    dishes: MenuDish[];
+}
+
+export interface LandmarkIdentification {
+    name: string;
+    city: string;
+    country: string;
+    summary: string;
+    history: string;
+    nearbyTips: string[];
+    location?: { lat: number, lng: number };
+    visitDurationMinutes?: number;
+    confidence: 'high' | 'medium' | 'low';
+}
+
+export interface TimetableRow {
+    time: string;
+    destination: string;
+    details: string; // platform, route number, days of operation
+}
+
+export interface SignReading {
+    kind: 'sign' | 'timetable' | 'notice';
+    language: string;
+    translation: string;
+    keyPoints: string[];
+    timetable: TimetableRow[]; // empty unless the photo shows a schedule
+}
+
+export type PhotoAnalysis =
+    | { mode: 'menu'; result: MenuTranslation }
+    | { mode: 'landmark'; result: LandmarkIdentification }
+    | { mode: 'sign'; result: SignReading };
+
 // --- TYPES FOR EXPLORE VIEW ---
 export interface ContentCardData {
   title: string;
@@ -99,6 +283,11 @@ export interface ContentCardData {
   imageUrl: string;
   icon?: React.ReactNode;
   url?: string;
+  location?: { lat: number, lng: number };
+  // Short facts shown under the subtitle, e.g. distance and rating.
+  details?: string[];
+  // The record the card was built from, kept when the card is saved.
+  source?: SavedItemData;
 }
 
 export interface ContentCarouselData {
@@ -107,4 +296,36 @@ export interface ContentCarouselData {
   showMapButton?: boolean;
   seeAllLink?: boolean;
   cards: ContentCardData[];
+}
+
+export type BudgetTier = 'budget' | 'moderate' | 'luxury';
+
+export interface Destination {
+  name: string; // e.g. 'Kyoto, Japan'
+  lat: number;
+  lng: number;
+  // From place search; absent on destinations read from a shared link.
+  city?: string;
+  region?: string;
+  country?: string;
+}
+
+// Where a point is, as returned by reverse geocoding.
+export interface ResolvedLocation {
+  city: string;
+  region: string; // state, province or prefecture; empty when there is none
+  country: string;
+  lat: number;
+  lng: number;
+}
+
+// What the Explore filter bar is set to. Without a destination, Explore uses
+// the device location.
+export interface TripCriteria {
+  destination?: Destination;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string;
+  adults: number;
+  children: number;
+  budget?: BudgetTier;
 }
\ No newline at end of file
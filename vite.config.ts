@@ -1,18 +1,67 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const FIXTURE_PATH = /^[a-z0-9-]+\/[a-z0-9-]+\.json$/;
+
+// Dev-only endpoint the fixture provider posts recorded AI responses to.
+// They are written under public/fixtures so replay can fetch them. It is only
+// mounted while recording, since the dev server listens on every interface.
+function fixtureRecorder(): Plugin {
+    return {
+        name: 'travelmind-fixture-recorder',
+        apply: 'serve',
+        configureServer(server) {
+            server.middlewares.use('/__fixtures', (req, res) => {
+                if (req.method !== 'POST') {
+                    res.statusCode = 405;
+                    res.end();
+                    return;
+                }
+                let body = '';
+                req.on('data', chunk => { body += chunk; });
+                req.on('end', () => {
+                    try {
+                        const { path: fixturePath, file } = JSON.parse(body);
+                        if (typeof fixturePath !== 'string' || !FIXTURE_PATH.test(fixturePath)) {
+                            res.statusCode = 400;
+                            res.end('Invalid fixture path');
+                            return;
+                        }
+                        const target = path.resolve(__dirname, 'public/fixtures', fixturePath);
+                        fs.mkdirSync(path.dirname(target), { recursive: true });
+                        fs.writeFileSync(target, JSON.stringify(file, null, 2) + '\n');
+                        res.statusCode = 204;
+                        res.end();
+                    } catch (error) {
+                        res.statusCode = 500;
+                        res.end(String(error));
+                    }
+                });
+            });
+        },
+    };
+}
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const isRecordingFixtures = env.AI_PROVIDER === 'fixtures' && env.AI_FIXTURE_MODE === 'record';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), ...(isRecordingFixtures ? [fixtureRecorder()] : [])],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_FIXTURE_MODE': JSON.stringify(env.AI_FIXTURE_MODE),
+        'process.env.MAP_TILE_URL': JSON.stringify(env.MAP_TILE_URL),
+        'process.env.MAP_TILE_ATTRIBUTION': JSON.stringify(env.MAP_TILE_ATTRIBUTION),
+        'process.env.YOUTUBE_API_KEY': JSON.stringify(env.YOUTUBE_API_KEY),
+        'process.env.YOUTUBE_API_BASE_URL': JSON.stringify(env.YOUTUBE_API_BASE_URL)
       },
       resolve: {
         alias: {